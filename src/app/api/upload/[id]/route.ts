@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDownloadHeaders } from '@/lib/upload-storage';
+import { uploadStorage } from '../storage';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// Serve a stored upload
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const stored = await uploadStorage.read((await params).id);
+    if (!stored) {
+        return new NextResponse(null, { status: 404 });
+    }
+
+    return new NextResponse(stored.data as BodyInit, {
+        headers: getDownloadHeaders(stored.name, stored.type)
+    });
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_PART_NUMBER } from '@/lib/object-storage';
+import { getDownloadHeaders } from '@/lib/upload-storage';
+import { localBucket } from '../bucket';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+    params: Promise<{ key?: string[] }>;
+}
+
+const getKey = async (params: RouteContext['params']): Promise<string> => ((await params).key ?? []).join('/');
+
+// Same error statuses S3 uses, the body is plain text instead of XML
+const storageError = (message: string, status: number) => new NextResponse(message, { status });
+
+// Compare media types without parameters such as `; charset=utf-8`
+const getMediaType = (type: string | null): string => (type ?? '').split(';')[0].trim().toLowerCase();
+
+// Presigned PUT of a whole object or of one multipart part
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const key = await getKey(params);
+    const query = request.nextUrl.searchParams;
+    const uploadId = query.get('uploadId') ?? undefined;
+    const partNumber = query.has('partNumber') ? Number(query.get('partNumber')) : undefined;
+    const type = query.get('type') ?? undefined;
+    const size = query.has('size') ? Number(query.get('size')) : undefined;
+
+    const signed = localBucket.verifyRequest({
+        method: 'PUT',
+        key,
+        uploadId,
+        partNumber,
+        type,
+        size,
+        expires: Number(query.get('expires')),
+        signature: query.get('signature') ?? ''
+    });
+    if (!signed) {
+        return storageError('Signature does not match or has expired', 403);
+    }
+
+    // Streamed to disk, a multi-gigabyte video never sits in memory
+    const body = request.body ?? new Blob([]).stream();
+
+    if (uploadId !== undefined || partNumber !== undefined) {
+        if (!uploadId || partNumber === undefined || !Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+            return storageError('Invalid uploadId or partNumber', 400);
+        }
+        try {
+            const etag = await localBucket.putPart(uploadId, partNumber, body);
+            if (!etag) {
+                return storageError('No such upload', 404);
+            }
+            return new NextResponse(null, { status: 200, headers: { ETag: etag } });
+        } catch (error) {
+            return storageError(error instanceof Error ? error.message : 'Unable to store the part', 400);
+        }
+    }
+
+    // Whole objects are stored with the signed type, never the one the request claims
+    if (type === undefined || size === undefined) {
+        return storageError('Missing signed type and size', 403);
+    }
+    if (getMediaType(request.headers.get('Content-Type')) !== getMediaType(type)) {
+        return storageError('Content-Type does not match the signed type', 403);
+    }
+    if (Number(request.headers.get('Content-Length') ?? size) !== size) {
+        return storageError(`Expected ${size} bytes`, 400);
+    }
+
+    try {
+        const etag = await localBucket.putObject(key, type, body, size);
+        return new NextResponse(null, { status: 200, headers: { ETag: etag } });
+    } catch (error) {
+        return storageError(error instanceof Error ? error.message : 'Unable to store the object', 400);
+    }
+}
+
+// Presigned POST form upload, the key comes from the form fields.
+// Parsing the form buffers the body, so large files should use PUT or multipart targets.
+export async function POST(request: NextRequest) {
+    let formData: FormData;
+    try {
+        formData = await request.formData();
+    } catch (_error) {
+        return storageError('Expected a multipart/form-data body', 400);
+    }
+
+    const key = String(formData.get('key') ?? '');
+    const type = String(formData.get('Content-Type') ?? '');
+    const size = Number(formData.get('size'));
+    const file = formData.get('file');
+
+    const signed = localBucket.verifyRequest({
+        method: 'POST',
+        key,
+        type,
+        size,
+        expires: Number(formData.get('expires')),
+        signature: String(formData.get('signature') ?? '')
+    });
+    if (!signed) {
+        return storageError('Signature does not match or has expired', 403);
+    }
+    if (!(file instanceof File)) {
+        return storageError('No file was provided', 400);
+    }
+
+    if (file.size !== size) {
+        return storageError(`Expected ${size} bytes, received ${file.size}`, 400);
+    }
+
+    try {
+        const etag = await localBucket.putObject(key, type, file.stream(), size);
+        return new NextResponse(null, { status: 204, headers: { ETag: etag } });
+    } catch (error) {
+        return storageError(error instanceof Error ? error.message : 'Unable to store the object', 400);
+    }
+}
+
+// Public read, like a bucket serving its objects
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const key = await getKey(params);
+    const stored = await localBucket.readObject(key);
+    if (!stored) {
+        return storageError('No such key', 404);
+    }
+
+    return new NextResponse(stored.body, {
+        headers: {
+            ...getDownloadHeaders(key.split('/').pop() ?? '', stored.type),
+            'Content-Length': String(stored.size)
+        }
+    });
+}
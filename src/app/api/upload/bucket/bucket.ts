@@ -0,0 +1,4 @@
+import { createLocalBucketStorage } from '@/lib/object-storage';
+
+// Shared by the bucket route and the presign route so both agree on the signing secret
+export const localBucket = createLocalBucketStorage();
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createObjectKey, isValidObjectKey, MAX_PART_NUMBER } from '@/lib/object-storage';
+import type { CompletedPart, PresignRequest, UploadErrorResponse } from '@/lib/upload-api';
+import { validateFiles, type FileRules } from '@/lib/upload-rules';
+import { objectStorage } from './storage';
+
+export const runtime = 'nodejs';
+
+// Direct uploads skip the app server, so larger files and videos are allowed here than on /api/upload
+const directUploadRules: FileRules = {
+    maxFileSize: 5 * 1024 * 1024 * 1024, // 5GB
+    acceptedTypes: ['image/*', 'video/*']
+};
+
+const errorResponse = (body: UploadErrorResponse, status: number) => NextResponse.json(body, { status });
+
+const invalidRequest = (message: string) => errorResponse({
+    errors: [{ name: '', code: 'invalid-body', message }]
+}, 400);
+
+const isCompletedPart = (value: unknown): value is CompletedPart =>
+    typeof value === 'object' && value !== null
+    && Number.isInteger((value as CompletedPart).partNumber)
+    && typeof (value as CompletedPart).etag === 'string';
+
+// Hand out presigned targets for uploads that go straight to object storage.
+// Add your own authentication here, anyone who can call this route can write to the bucket.
+export async function POST(request: NextRequest) {
+    let body: PresignRequest;
+    try {
+        body = await request.json();
+    } catch (_error) {
+        return invalidRequest('Expected a JSON body');
+    }
+
+    switch (body?.action) {
+        case 'target':
+        case 'create': {
+            const { name, type, size } = body;
+            if (typeof name !== 'string' || typeof type !== 'string' || !Number.isInteger(size) || size < 0) {
+                return invalidRequest('Expected the file name, type and size');
+            }
+
+            const rejections = validateFiles([{ name, type, size }], directUploadRules);
+            if (rejections.length > 0) {
+                const status = rejections[0].code === 'file-too-large' ? 413 : 400;
+                return errorResponse({ errors: rejections }, status);
+            }
+
+            const object = { key: createObjectKey(name), type, size };
+            const result = body.action === 'target'
+                ? await objectStorage.createUploadTarget(object)
+                : await objectStorage.createMultipartUpload(object);
+            return NextResponse.json(result, { status: 201 });
+        }
+
+        case 'sign-part':
+        case 'complete':
+        case 'abort': {
+            const { key, uploadId } = body;
+            if (typeof key !== 'string' || !isValidObjectKey(key) || typeof uploadId !== 'string') {
+                return invalidRequest('Expected the key and uploadId of a multipart upload');
+            }
+
+            if (body.action === 'sign-part') {
+                const { partNumber } = body;
+                if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+                    return invalidRequest(`partNumber must be between 1 and ${MAX_PART_NUMBER}`);
+                }
+                return NextResponse.json(await objectStorage.signPart({ key, uploadId }, partNumber));
+            }
+
+            if (body.action === 'complete') {
+                if (!Array.isArray(body.parts) || !body.parts.every(isCompletedPart)) {
+                    return invalidRequest('Expected the list of uploaded parts');
+                }
+                try {
+                    await objectStorage.completeMultipartUpload({ key, uploadId }, body.parts);
+                } catch (error) {
+                    return invalidRequest(error instanceof Error ? error.message : 'Unable to complete the upload');
+                }
+                return new NextResponse(null, { status: 204 });
+            }
+
+            await objectStorage.abortMultipartUpload({ key, uploadId });
+            return new NextResponse(null, { status: 204 });
+        }
+
+        default:
+            return invalidRequest('Unknown action');
+    }
+}
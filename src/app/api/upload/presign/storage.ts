@@ -0,0 +1,5 @@
+import type { ObjectStorage } from '@/lib/object-storage';
+import { localBucket } from '../bucket/bucket';
+
+// Swap this for an S3, R2 or MinIO adapter to send uploads to real object storage
+export const objectStorage: ObjectStorage = localBucket;
@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { UploadErrorResponse, UploadManifest } from '@/lib/upload-api';
+import { defaultUploadRules, validateFiles } from '@/lib/upload-rules';
+import { uploadStorage } from './storage';
+
+export const runtime = 'nodejs';
+
+const errorResponse = (body: UploadErrorResponse, status: number) => NextResponse.json(body, { status });
+
+// Room for the multipart boundaries and part headers on top of the files themselves
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+// Receive multipart uploads, validate them again and store them
+export async function POST(request: NextRequest) {
+    // Parsing the form buffers the whole body, so refuse one that cannot fit the rules before reading it
+    const { maxFiles, maxFileSize } = defaultUploadRules;
+    if (Number(request.headers.get('Content-Length') ?? 0) > maxFiles * maxFileSize + MULTIPART_OVERHEAD) {
+        return errorResponse({
+            errors: [{ name: '', code: 'file-too-large', message: 'The request is larger than the upload rules allow' }]
+        }, 413);
+    }
+
+    let formData: FormData;
+    try {
+        formData = await request.formData();
+    } catch (_error) {
+        return errorResponse({
+            errors: [{ name: '', code: 'invalid-body', message: 'Expected a multipart/form-data body' }]
+        }, 400);
+    }
+
+    // Accept files under any field name
+    const files = Array.from(formData.values()).filter((value): value is File => value instanceof File);
+    if (files.length === 0) {
+        return errorResponse({
+            errors: [{ name: '', code: 'no-files', message: 'No files were provided' }]
+        }, 400);
+    }
+
+    // maxFiles caps a single request; a limit across requests needs a per-user quota here
+    const rejections = validateFiles(files, defaultUploadRules);
+    if (rejections.length > 0) {
+        const status = rejections.some(r => r.code === 'file-too-large') ? 413 : 400;
+        return errorResponse({ errors: rejections }, status);
+    }
+
+    const manifest: UploadManifest = { files: [] };
+    for (const file of files) {
+        const data = new Uint8Array(await file.arrayBuffer());
+        const id = crypto.randomUUID();
+        const { url } = await uploadStorage.save({ id, name: file.name, type: file.type, data });
+
+        manifest.files.push({
+            id,
+            name: file.name,
+            url,
+            size: data.byteLength,
+            type: file.type,
+            checksum: createHash('sha256').update(data).digest('hex')
+        });
+    }
+
+    return NextResponse.json(manifest, { status: 201 });
+}
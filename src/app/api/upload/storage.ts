@@ -0,0 +1,4 @@
+import { createLocalDiskStorage, type UploadStorage } from '@/lib/upload-storage';
+
+// Swap this for another adapter (S3, database, ...) to change where uploads end up
+export const uploadStorage: UploadStorage = createLocalDiskStorage();
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { appendChunk, deleteUpload, getUpload, tusHeaders } from '../tus-store';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// Current offset of an upload
+export async function HEAD(_request: NextRequest, { params }: RouteContext) {
+    const info = await getUpload((await params).id);
+    if (!info) {
+        return new NextResponse(null, { status: 404, headers: tusHeaders() });
+    }
+
+    return new NextResponse(null, {
+        status: 200,
+        headers: tusHeaders({
+            'Upload-Offset': String(info.offset),
+            'Upload-Length': String(info.length)
+        })
+    });
+}
+
+// Append a chunk at the offset the client claims to be at
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    if (request.headers.get('Content-Type') !== 'application/offset+octet-stream') {
+        return new NextResponse('Invalid Content-Type', { status: 415, headers: tusHeaders() });
+    }
+
+    const info = await getUpload((await params).id);
+    if (!info) {
+        return new NextResponse(null, { status: 404, headers: tusHeaders() });
+    }
+
+    const offset = Number(request.headers.get('Upload-Offset'));
+    if (offset !== info.offset) {
+        return new NextResponse('Upload-Offset does not match', { status: 409, headers: tusHeaders() });
+    }
+
+    const chunk = new Uint8Array(await request.arrayBuffer());
+    if (info.offset + chunk.byteLength > info.length) {
+        return new NextResponse('Chunk exceeds Upload-Length', { status: 413, headers: tusHeaders() });
+    }
+
+    const updated = await appendChunk(info, chunk);
+
+    return new NextResponse(null, {
+        status: 204,
+        headers: tusHeaders({ 'Upload-Offset': String(updated.offset) })
+    });
+}
+
+// Termination extension
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const info = await getUpload((await params).id);
+    if (!info) {
+        return new NextResponse(null, { status: 404, headers: tusHeaders() });
+    }
+
+    await deleteUpload(info.id);
+    return new NextResponse(null, { status: 204, headers: tusHeaders() });
+}
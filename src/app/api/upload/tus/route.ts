@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUpload, parseMetadata, tusHeaders, TUS_MAX_SIZE, TUS_VERSION } from './tus-store';
+
+export const runtime = 'nodejs';
+
+// Server capabilities
+export function OPTIONS() {
+    return new NextResponse(null, {
+        status: 204,
+        headers: tusHeaders({
+            'Tus-Version': TUS_VERSION,
+            'Tus-Max-Size': String(TUS_MAX_SIZE),
+            'Tus-Extension': 'creation,termination'
+        })
+    });
+}
+
+// Create a new upload
+export async function POST(request: NextRequest) {
+    const length = Number(request.headers.get('Upload-Length'));
+
+    if (!Number.isInteger(length) || length < 0) {
+        return new NextResponse('Missing or invalid Upload-Length', { status: 400, headers: tusHeaders() });
+    }
+
+    if (length > TUS_MAX_SIZE) {
+        return new NextResponse('Upload exceeds Tus-Max-Size', { status: 413, headers: tusHeaders() });
+    }
+
+    const info = await createUpload(length, parseMetadata(request.headers.get('Upload-Metadata')));
+
+    return new NextResponse(null, {
+        status: 201,
+        headers: tusHeaders({
+            Location: `${request.nextUrl.pathname}/${info.id}`,
+            'Upload-Offset': '0'
+        })
+    });
+}
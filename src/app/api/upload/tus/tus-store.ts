@@ -0,0 +1,84 @@
+// Minimal on-disk store for the local tus endpoint. Meant for development and offline testing.
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const TUS_VERSION = '1.0.0';
+export const TUS_MAX_SIZE = 1024 * 1024 * 1024; // 1GB
+
+const UPLOAD_DIR = process.env.TUS_UPLOAD_DIR ?? path.join(os.tmpdir(), 'camera-uploader-tus');
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export interface TusUploadInfo {
+    id: string;
+    length: number;
+    offset: number;
+    metadata: Record<string, string>;
+    createdAt: string;
+}
+
+export const tusHeaders = (extra: Record<string, string> = {}): Record<string, string> => ({
+    'Tus-Resumable': TUS_VERSION,
+    'Cache-Control': 'no-store',
+    ...extra
+});
+
+// Decode "key base64,key2 base64" into a plain object
+export const parseMetadata = (header: string | null): Record<string, string> => {
+    const metadata: Record<string, string> = {};
+    if (!header) return metadata;
+
+    header.split(',').forEach(pair => {
+        const [key, value = ''] = pair.trim().split(' ');
+        if (key) {
+            metadata[key] = Buffer.from(value, 'base64').toString('utf8');
+        }
+    });
+    return metadata;
+};
+
+const getDataPath = (id: string): string => path.join(UPLOAD_DIR, id);
+const getInfoPath = (id: string): string => path.join(UPLOAD_DIR, `${id}.json`);
+
+export const isValidUploadId = (id: string): boolean => ID_PATTERN.test(id);
+
+export const createUpload = async (length: number, metadata: Record<string, string>): Promise<TusUploadInfo> => {
+    await fs.mkdir(UPLOAD_DIR, { recursive: true });
+
+    const info: TusUploadInfo = {
+        id: crypto.randomUUID(),
+        length,
+        offset: 0,
+        metadata,
+        createdAt: new Date().toISOString()
+    };
+
+    await fs.writeFile(getDataPath(info.id), new Uint8Array(0));
+    await fs.writeFile(getInfoPath(info.id), JSON.stringify(info));
+    return info;
+};
+
+export const getUpload = async (id: string): Promise<TusUploadInfo | null> => {
+    if (!isValidUploadId(id)) return null;
+    try {
+        return JSON.parse(await fs.readFile(getInfoPath(id), 'utf8')) as TusUploadInfo;
+    } catch (_error) {
+        return null;
+    }
+};
+
+// Append a chunk at the current offset and return the updated info
+export const appendChunk = async (info: TusUploadInfo, chunk: Uint8Array): Promise<TusUploadInfo> => {
+    await fs.appendFile(getDataPath(info.id), chunk);
+
+    const updated: TusUploadInfo = { ...info, offset: info.offset + chunk.byteLength };
+    await fs.writeFile(getInfoPath(info.id), JSON.stringify(updated));
+    return updated;
+};
+
+export const deleteUpload = async (id: string): Promise<void> => {
+    await Promise.all([
+        fs.rm(getDataPath(id), { force: true }),
+        fs.rm(getInfoPath(id), { force: true })
+    ]);
+};
@@ -1,52 +1,31 @@
 "use client"
-import CameraUploadComponent from "@/components/common/camera-uploader";
+import CameraUploadComponent, { type FileObject } from "@/components/common/camera-uploader";
 import { GithubButton } from "@/components/ui/github-button";
-import { useState } from "react";
-import { toast } from "sonner";
+import { defaultUploadRules } from "@/lib/upload-rules";
+import { createXhrTransport } from "@/lib/upload-transport";
 
-interface FileObject {
-  file: File;           // The actual File object from the browser
-  id: string;           // Unique identifier we generate
-  preview: string;      // Object URL for preview (created with URL.createObjectURL)
-  name: string;         // File name (copied from file.name)
-  size: number;         // File size in bytes (copied from file.size)
-  type: string;         // MIME type (copied from file.type)
-}
+// Sends each file to the local /api/upload route handler
+const transport = createXhrTransport({ endpoint: "/api/upload", fieldName: "files" });
 
 const Home = () => {
-  const [isLoading, setIsLoading] = useState(false);
   const handleFilesChange = (files: FileObject[]) => {
     console.log('Files updated:', files);
   };
 
-  const handleUpload = async (files: FileObject[]) => {
-    setIsLoading(true);
-    const formData = new FormData();
-    files.forEach(fileObj => {
-      formData.append('files', fileObj.file);
-    });
-
-    toast.promise(new Promise((resolve) => {
-      setTimeout(() => {
-        console.log('Files uploaded:', files);
-        resolve(files);
-      }, 2000);
-    }), {
-      loading: "Uploading files...",
-      success: "Files uploaded successfully!",
-      error: "Failed to upload files.",
-    });
-    setIsLoading(false);
-  };
-
   return (
     <div className="min-h-screen flex items-center flex-col justify-center p-4">
       <CameraUploadComponent
         onFilesChange={handleFilesChange}
-        onUpload={handleUpload}
-        maxFileSize={5 * 1024 * 1024} // 5MB
-        acceptedTypes={['image/*']} // Only images
-        maxFiles={5}
+        onFileUploaded={(file) => console.log('File uploaded:', file.manifest)}
+        transport={transport}
+        maxFileSize={defaultUploadRules.maxFileSize} // 5MB
+        acceptedTypes={defaultUploadRules.acceptedTypes} // Only images
+        maxFiles={defaultUploadRules.maxFiles}
+        multiShot
+        capture={{ maxWidth: 2048, maxHeight: 2048, fileName: "{prefix}-{date}-{seq:3}" }} // Stays a JPEG for the 5MB limit
+        documentScan // Flattened JPEG pages, the route only accepts images
+        barcodeScan
+        onCodeDetected={(code) => console.log('Code detected:', code.format, code.value)}
       />
       <div className="flex justify-end items-center">
         <GithubButton label="Checkout on GitHub" repoUrl="https://github.com/square-story/camera-uploader" />
@@ -55,4 +34,4 @@ const Home = () => {
   );
 };
 
-export default Home;
\ No newline at end of file
+export default Home;
@@ -1,376 +1,1017 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { Camera, Upload, X, Check, ImageIcon } from 'lucide-react';
+import React, { useState, useRef, useCallback, useImperativeHandle } from 'react';
+import { Camera, Upload, X, Check, ImageIcon, Clock, Loader2, AlertCircle, RotateCcw, Ban, Video, Circle, Square, Mic, MicOff, SwitchCamera, Crop, GripVertical, Star, Play, FolderOpen, WifiOff, ScanLine, ScanBarcode, Timer, Layers, Pencil } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import Image from 'next/image';
 import { toast } from 'sonner';
+import ImageEditor from '@/components/common/image-editor';
+import FileLightbox from '@/components/common/file-lightbox';
+import DocumentScanner from '@/components/common/document-scanner';
+import { RESOLUTION_PRESETS, type ResolutionPreset } from '@/lib/camera';
+import { DEFAULT_CAPTURE_TEMPLATE, splitFileName } from '@/lib/file-naming';
+import { createScanPdf, type DocumentScanOptions, type Quad, type ScannedPage } from '@/lib/document-scan';
+import { BARCODE_FORMAT_LABELS, DEFAULT_BARCODE_FORMATS, type BarcodeScanOptions, type DetectedCode } from '@/lib/barcode';
+import { useCameraUploader, type FileObject, type UseCameraUploaderOptions } from '@/hooks/use-camera-uploader';
+import { useSortable } from '@/hooks/use-sortable';
+import { useDialog } from '@/hooks/use-dialog';
+import { useDocumentDetection } from '@/hooks/use-document-detection';
+import { useBarcodeScanner } from '@/hooks/use-barcode-scanner';
+import { useCaptureSession, type MultiShotOptions } from '@/hooks/use-capture-session';
 
 // Type definitions
-interface FileObject {
-    file: File;
-    id: string;
-    preview: string;
-    name: string;
-    size: number;
-    type: string;
-}
+type CaptureMode = 'photo' | 'video' | 'document' | 'barcode';
+export type FileListLayout = 'list' | 'grid';
 
-interface CameraUploadComponentProps {
-    onFilesChange?: (files: FileObject[]) => void;
-    onUpload?: (files: FileObject[]) => Promise<void> | void;
-    maxFileSize?: number; // in bytes
-    acceptedTypes?: string[];
-    maxFiles?: number;
+export interface CameraUploadComponentProps extends UseCameraUploaderOptions {
+    editAfterCapture?: boolean; // open the image editor on captured photos before adding them
+    multiShot?: boolean | MultiShotOptions; // keep the camera open and collect shots until Done
+    documentScan?: boolean | DocumentScanOptions; // adds a document mode with page detection to the camera
+    barcodeScan?: boolean | BarcodeScanOptions; // adds a mode that reads barcodes and QR codes from the preview
+    onCodeDetected?: (code: DetectedCode, photo?: File) => void; // photo is set when snapPhoto is on
+    layout?: FileListLayout; // rows with details, or a thumbnail grid
     className?: string;
 }
 
-const CameraUploadComponent: React.FC<CameraUploadComponentProps> = ({
-    onFilesChange,
-    onUpload,
-    maxFileSize = 10 * 1024 * 1024, // 10MB default
-    acceptedTypes = ['image/*', 'video/*'],
-    maxFiles = 10,
-    className = ''
+// Imperative API exposed through the component ref
+export interface CameraUploaderHandle {
+    openFilePicker: () => void;
+    openCamera: () => Promise<void>;
+    addFiles: (files: FileList | File[]) => Promise<void>;
+    removeFile: (id: string) => void;
+    renameFile: (id: string, name: string) => void;
+    clear: () => void;
+    upload: () => Promise<void>;
+}
+
+export {
+    createFileObject,
+    getCoverFile,
+    type DuplicateHandling,
+    type FileObject,
+    type FileValidator,
+    type UploadStatus
+} from '@/hooks/use-camera-uploader';
+export type { FileRejection } from '@/lib/upload-rules';
+
+// Format seconds as m:ss
+const formatDuration = (totalSeconds: number): string => {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Preview filling its container; object URLs are shown as-is, bypassing the image optimizer
+const FileThumbnail: React.FC<{ fileObj: FileObject }> = ({ fileObj }) => {
+    const poster = fileObj.type.startsWith('image/') ? fileObj.preview : fileObj.thumbnail;
+
+    return (
+        <>
+            {poster ? (
+                <Image
+                    src={poster}
+                    alt={fileObj.name}
+                    fill
+                    unoptimized
+                    sizes="(min-width: 640px) 200px, 50vw"
+                    className="object-cover"
+                />
+            ) : (
+                <div className="absolute inset-0 bg-muted flex items-center justify-center">
+                    {fileObj.type.startsWith('video/')
+                        ? <Video className="h-6 w-6 text-muted-foreground" />
+                        : <ImageIcon className="h-6 w-6 text-muted-foreground" />}
+                </div>
+            )}
+            {poster && fileObj.type.startsWith('video/') && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <Play className="h-5 w-5 fill-white text-white drop-shadow" />
+                </div>
+            )}
+        </>
+    );
+};
+
+// Inline name field; Enter or leaving the field saves, Escape keeps the old name
+const FileNameInput: React.FC<{ name: string; label: string; onSave: (name: string) => void; onCancel: () => void }> = ({
+    name,
+    label,
+    onSave,
+    onCancel
 }) => {
-    const [isDragOver, setIsDragOver] = useState<boolean>(false);
-    const [files, setFiles] = useState<FileObject[]>([]);
-    const [showCamera, setShowCamera] = useState<boolean>(false);
-    const [stream, setStream] = useState<MediaStream | null>(null);
-    const [isUploading, setIsUploading] = useState<boolean>(false);
-
-    const fileInputRef = useRef<HTMLInputElement>(null);
-    const videoRef = useRef<HTMLVideoElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-
-    // Validate file type
-    const isValidFileType = useCallback((file: File): boolean => {
-        return acceptedTypes.some(type => {
-            if (type.endsWith('/*')) {
-                return file.type.startsWith(type.slice(0, -1));
-            }
-            return file.type === type;
-        });
-    }, [acceptedTypes]);
-
-    // Handle file upload with validation
-    const handleFiles = useCallback((newFiles: FileList | File[]): void => {
-        const fileArray = Array.from(newFiles);
-
-        // Filter and validate files
-        const validFiles = fileArray.filter(file => {
-            if (!isValidFileType(file)) {
-                console.warn(`File ${file.name} is not a supported type`);
-                return false;
-            }
+    const inputRef = useRef<HTMLInputElement>(null);
+    const cancelledRef = useRef(false);
 
-            if (file.size > maxFileSize) {
-                console.warn(`File ${file.name} is too large (${formatFileSize(file.size)})`);
-                return false;
-            }
+    // Select the name without the extension, which is kept anyway
+    React.useEffect(() => {
+        inputRef.current?.focus();
+        inputRef.current?.setSelectionRange(0, splitFileName(name)[0].length);
+    }, [name]);
 
-            return true;
-        });
+    return (
+        <input
+            ref={inputRef}
+            defaultValue={name}
+            aria-label={label}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                    e.preventDefault();
+                    e.currentTarget.blur();
+                } else if (e.key === 'Escape') {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    cancelledRef.current = true;
+                    onCancel();
+                }
+            }}
+            onBlur={(e) => {
+                if (!cancelledRef.current) onSave(e.currentTarget.value);
+            }}
+            className="h-7 w-full min-w-0 rounded-md border bg-background px-2 text-sm"
+        />
+    );
+};
 
-        // Check max files limit
-        const remainingSlots = maxFiles - files.length;
-        const filesToAdd = validFiles.slice(0, remainingSlots);
+// Card-based UI on top of useCameraUploader
+const CameraUploadComponent = React.forwardRef<CameraUploaderHandle, CameraUploadComponentProps>(({
+    editAfterCapture = false,
+    multiShot = false,
+    documentScan = false,
+    barcodeScan = false,
+    onCodeDetected,
+    layout = 'list',
+    className = '',
+    ...options
+}, ref) => {
+    const [captureMode, setCaptureMode] = useState<CaptureMode>('photo');
+    const [editingFileId, setEditingFileId] = useState<string | null>(null);
+    const [capturedPhoto, setCapturedPhoto] = useState<File | null>(null); // shot waiting in the editor
+    const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+    const [scanFrame, setScanFrame] = useState<{ file: File; quad: Quad | null } | null>(null); // page waiting for corner adjustment
+    const [scanPages, setScanPages] = useState<ScannedPage[]>([]); // finished pages of the current scan
+    const [timerIndex, setTimerIndex] = useState<number>(0); // 0 is off, then an index into timerDelays + 1
+    const [reviewShotId, setReviewShotId] = useState<string | null>(null);
+    const [renamingFileId, setRenamingFileId] = useState<string | null>(null);
 
-        if (filesToAdd.length < validFiles.length) {
-            console.warn(`Only adding ${filesToAdd.length} files due to maximum limit of ${maxFiles}`);
-        }
+    const {
+        files,
+        rejections,
+        processingCount,
+        isRestoring,
+        queueStatus,
+        retryQueue,
+        isUploading,
+        pendingCount,
+        isFull,
+        remainingSlots,
+        isInvalid,
+        isFormField,
+        canRecordVideo,
+        addFiles,
+        replaceFile,
+        renameFile,
+        moveFile,
+        setCover,
+        removeFile,
+        clear,
+        dismissRejections,
+        upload,
+        uploadFile,
+        cancelUpload,
+        capturePhoto: captureAndAddPhoto,
+        acceptClip,
+        isDragOver,
+        openFilePicker,
+        openFolderPicker,
+        getRootProps,
+        getInputProps,
+        getDirectoryInputProps,
+        getFormInputProps,
+        announcement,
+        translator,
+        camera
+    } = useCameraUploader(options);
+    const { t, formatFileSize } = translator;
+    const { acceptedTypes = ['image/*', 'video/*'], maxFileSize = 10 * 1024 * 1024, maxFiles = 10, transport, paste = 'zone' } = options;
 
-        const fileObjects: FileObject[] = filesToAdd.map(file => ({
-            file,
-            id: Math.random().toString(36).substr(2, 9),
-            preview: URL.createObjectURL(file),
-            name: file.name,
-            size: file.size,
-            type: file.type
-        }));
-
-        setFiles(prev => {
-            const updatedFiles = [...prev, ...fileObjects];
-            onFilesChange?.(updatedFiles);
-            return updatedFiles;
-        });
-    }, [files.length, isValidFileType, maxFileSize, maxFiles, onFilesChange]);
-
-    // Drag and drop handlers
-    const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>): void => {
-        e.preventDefault();
-        e.stopPropagation();
-        setIsDragOver(true);
-    }, []);
+    const dropzoneHintId = React.useId();
+    const shutterHintId = React.useId();
 
-    const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>): void => {
-        e.preventDefault();
-        e.stopPropagation();
-        setIsDragOver(false);
-    }, []);
+    // Multi-shot session, shots stay in the camera until Done adds them all at once
+    const { capturePhoto: captureFrame, open: openCamera, close: closeCamera } = camera;
+    const { burstCount = 5, burstInterval = 300, timerDelays = [3, 10] } = typeof multiShot === 'object' ? multiShot : {};
+    const timerDelay = timerIndex > 0 ? timerDelays[timerIndex - 1] ?? 0 : 0;
+    const {
+        shots,
+        countdown,
+        isCapturing,
+        remaining: remainingShots,
+        shoot,
+        cancel: cancelShooting,
+        discardShot,
+        commit: commitShots,
+        reset: resetSession
+    } = useCaptureSession({ captureFrame, maxShots: remainingSlots });
+    const reviewedShotIndex = shots.findIndex(shot => shot.id === reviewShotId);
+    const reviewedShot = reviewedShotIndex === -1 ? null : shots[reviewedShotIndex];
 
-    const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>): void => {
-        e.preventDefault();
-        e.stopPropagation();
-    }, []);
+    const captureBurst = useCallback(async (): Promise<void> => {
+        await shoot({ count: burstCount, interval: burstInterval, delay: timerDelay });
+    }, [shoot, burstCount, burstInterval, timerDelay]);
 
-    const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>): void => {
-        e.preventDefault();
-        e.stopPropagation();
-        setIsDragOver(false);
+    const finishSession = useCallback(async (): Promise<void> => {
+        const kept = commitShots();
+        closeCamera();
+        await addFiles(kept);
+    }, [commitShots, closeCamera, addFiles]);
 
-        const droppedFiles = e.dataTransfer.files;
-        if (droppedFiles.length > 0) {
-            handleFiles(droppedFiles);
-        }
-    }, [handleFiles]);
+    // However the camera closes, shots that were not committed are dropped
+    React.useEffect(() => {
+        if (camera.isOpen) return;
+        resetSession();
+        setReviewShotId(null);
+    }, [camera.isOpen, resetSession]);
 
-    // File input handler
-    const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>): void => {
-        if (e.target.files?.length) {
-            handleFiles(e.target.files);
+    // Captured photos go through the editor first when editAfterCapture is on
+    const capturePhoto = useCallback(async (): Promise<void> => {
+        if (multiShot) {
+            await shoot({ delay: timerDelay });
+            return;
         }
-    }, [handleFiles]);
-
-    // Camera handlers
-    const startCamera = useCallback(async (): Promise<void> => {
-        try {
-            // Check if getUserMedia is supported
-            if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-                toast.error('Camera access is not supported in this browser.');
-                return;
-            }
+        if (!editAfterCapture) {
+            await captureAndAddPhoto();
+            return;
+        }
+        const file = await captureFrame();
+        if (!file) return;
+        closeCamera();
+        setCapturedPhoto(file);
+    }, [multiShot, shoot, timerDelay, editAfterCapture, captureAndAddPhoto, captureFrame, closeCamera]);
 
-            setShowCamera(true); // Show modal first
-
-            const constraints: MediaStreamConstraints = {
-                video: {
-                    facingMode: { ideal: 'environment' }, // Try back camera first, fallback to any
-                    width: { ideal: 1280, max: 1920 },
-                    height: { ideal: 720, max: 1080 }
-                },
-                audio: false
-            };
-
-            const mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
-            setStream(mediaStream);
-
-            // Wait a bit for the video element to be ready
-            setTimeout(() => {
-                if (videoRef.current) {
-                    videoRef.current.srcObject = mediaStream;
-                    videoRef.current.play().catch(console.error);
-                }
-            }, 100);
-
-        } catch (error) {
-            console.error('Error accessing camera:', error);
-            setShowCamera(false); // Hide modal if camera fails
-
-            // Provide more specific error messages
-            if (error instanceof Error) {
-                if (error.name === 'NotAllowedError') {
-                    toast.error('Camera access denied. Please allow camera permissions and try again.');
-                } else if (error.name === 'NotFoundError') {
-                    toast.error('No camera found on this device.');
-                } else if (error.name === 'NotSupportedError') {
-                    toast.error('Camera is not supported on this device.');
-                } else if (error.name === 'OverconstrainedError') {
-                    // Try again with less restrictive constraints
-                    try {
-                        const fallbackStream = await navigator.mediaDevices.getUserMedia({
-                            video: true,
-                            audio: false
-                        });
-                        setStream(fallbackStream);
-                        setShowCamera(true);
-
-                        setTimeout(() => {
-                            if (videoRef.current) {
-                                videoRef.current.srcObject = fallbackStream;
-                                videoRef.current.play().catch(console.error);
-                            }
-                        }, 100);
-                    } catch (_fallbackError) {
-                        toast.error('Unable to access camera with any settings.');
-                    }
-                } else {
-                    toast.error(`Camera error: ${error.message}`);
-                }
-            } else {
-                toast.error('Unable to access camera. Please check permissions.');
+    // Document scanning
+    const scanOptions: DocumentScanOptions = typeof documentScan === 'object' ? documentScan : {};
+    const { output: scanOutput = 'image', enhancement: scanEnhancement, maxPages = 20 } = scanOptions;
+    const { quad: detectedQuad, frameSize } = useDocumentDetection({
+        videoRef: camera.videoRef,
+        enabled: camera.isOpen && captureMode === 'document' && !!camera.stream
+    });
+
+    const captureScanFrame = useCallback(async (): Promise<void> => {
+        const quad = detectedQuad;
+        const file = await captureFrame();
+        if (!file) return;
+        closeCamera();
+        setScanFrame({ file, quad });
+    }, [detectedQuad, captureFrame, closeCamera]);
+
+    // Each page is a JPEG, or all pages go into one PDF
+    const finishScan = useCallback(async (pages: ScannedPage[]): Promise<void> => {
+        setScanFrame(null);
+        setScanPages([]);
+        if (scanOutput === 'pdf') {
+            let pdf: File;
+            try {
+                pdf = await createScanPdf(pages);
+            } catch (error) {
+                // Keep the pages rather than losing the whole scan
+                console.error('Unable to create the scan PDF:', error);
+                toast.error(t('scanPdfFailed'));
+                await addFiles(pages.map(page => page.file));
+                return;
             }
+            await addFiles([pdf]);
+        } else {
+            await addFiles(pages.map(page => page.file));
         }
+    }, [scanOutput, addFiles, t]);
+
+    const handleScanAddPage = useCallback((page: ScannedPage): void => {
+        setScanPages(prev => [...prev, page]);
+        setScanFrame(null);
+        openCamera();
+    }, [openCamera]);
+
+    const handleScanDone = useCallback((page: ScannedPage): void => {
+        finishScan([...scanPages, page]);
+    }, [scanPages, finishScan]);
+
+    const handleScanRetake = useCallback((): void => {
+        setScanFrame(null);
+        openCamera();
+    }, [openCamera]);
+
+    const handleScanCancel = useCallback((): void => {
+        setScanFrame(null);
+        setScanPages([]);
     }, []);
 
-    const stopCamera = useCallback((): void => {
-        if (stream) {
-            stream.getTracks().forEach(track => track.stop());
-            setStream(null);
+    // Closing the camera by hand drops pages of an unfinished scan
+    const dismissCamera = useCallback((): void => {
+        setScanPages([]);
+        closeCamera();
+    }, [closeCamera]);
+
+    // Barcode scanning, runs alongside normal photos so an item can be scanned and photographed in one go
+    const barcodeOptions: BarcodeScanOptions = typeof barcodeScan === 'object' ? barcodeScan : {};
+    const { formats: barcodeFormats = DEFAULT_BARCODE_FORMATS, decoder: barcodeDecoder, snapPhoto = false } = barcodeOptions;
+    const handleCodeDetected = useCallback(async (code: DetectedCode): Promise<void> => {
+        if (!snapPhoto) {
+            onCodeDetected?.(code);
+            return;
         }
-        setShowCamera(false);
-    }, [stream]);
-
-    const capturePhoto = useCallback((): void => {
-        if (videoRef.current && canvasRef.current) {
-            const video = videoRef.current;
-            const canvas = canvasRef.current;
-            const context = canvas.getContext('2d');
-
-            if (!context) {
-                console.error('Unable to get canvas context');
-                toast.error('Unable to capture photo. Canvas not supported.');
-                return;
-            }
+        const photo = await captureFrame();
+        if (photo) await addFiles([photo]);
+        onCodeDetected?.(code, photo ?? undefined);
+    }, [snapPhoto, onCodeDetected, captureFrame, addFiles]);
 
-            // Check if video is playing and has dimensions
-            if (video.videoWidth === 0 || video.videoHeight === 0) {
-                toast.error('Camera not ready yet. Please wait a moment and try again.');
-                return;
-            }
+    const { lastCode, supportedFormats: readableFormats } = useBarcodeScanner({
+        videoRef: camera.videoRef,
+        enabled: !!barcodeScan && camera.isOpen && captureMode === 'barcode' && !!camera.stream,
+        formats: barcodeFormats,
+        decoder: barcodeDecoder,
+        onDetected: handleCodeDetected
+    });
+    const unreadableFormats = readableFormats ? barcodeFormats.filter(format => !readableFormats.includes(format)) : [];
 
-            // Set canvas dimensions to match video
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-
-            // Draw the current video frame to canvas
-            context.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-            // Convert canvas to blob and create file
-            canvas.toBlob((blob) => {
-                if (blob) {
-                    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-                    const file = new File([blob], `camera-capture-${timestamp}.jpg`, {
-                        type: 'image/jpeg'
-                    });
-                    handleFiles([file]);
-                    stopCamera();
-                } else {
-                    toast.error('Failed to capture photo. Please try again.');
-                }
-            }, 'image/jpeg', 0.9);
-        }
-    }, [handleFiles, stopCamera]);
-
-    // Remove file
-    const removeFile = useCallback((id: string): void => {
-        setFiles(prev => {
-            const fileToRemove = prev.find(f => f.id === id);
-            if (fileToRemove) {
-                URL.revokeObjectURL(fileToRemove.preview);
-            }
+    const { getDialogProps: getCameraDialogProps, getTitleProps: getCameraTitleProps } = useDialog({
+        onClose: dismissCamera,
+        isOpen: camera.isOpen
+    });
 
-            const updatedFiles = prev.filter(f => f.id !== id);
-            onFilesChange?.(updatedFiles);
-            return updatedFiles;
-        });
-    }, [onFilesChange]);
-
-    // Format file size
-    const formatFileSize = (bytes: number): string => {
-        if (bytes === 0) return '0 Bytes';
-        const k = 1024;
-        const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(k));
-        return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-    };
-
-    // Handle upload
-    const handleUpload = useCallback(async (): Promise<void> => {
-        if (files.length === 0) return;
-
-        setIsUploading(true);
-        try {
-            if (onUpload) {
-                await onUpload(files);
+    // Space/Enter on anything in the camera view that is not a control works as the shutter
+    const { stream, recordedClip, isRecording, startRecording, stopRecording } = camera;
+    const handleCameraKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>): void => {
+        if ((e.key !== ' ' && e.key !== 'Enter') || e.repeat) return;
+        if ((e.target as HTMLElement).closest('button, a, input, select, textarea, video[controls]')) return;
+        e.preventDefault();
+        if (!stream) return;
+
+        if (captureMode === 'photo' || captureMode === 'barcode') {
+            capturePhoto();
+        } else if (captureMode === 'document') {
+            captureScanFrame();
+        } else if (!recordedClip) {
+            if (isRecording) {
+                stopRecording();
             } else {
-                // Default behavior - just log the files
-                console.log('Files to upload:', files.map(f => f.file));
-                toast.success(`Ready to upload ${files.length} file(s)`);
+                startRecording();
             }
-        } catch (error) {
-            console.error('Upload error:', error);
-            toast.error('Upload failed. Please try again.');
-        } finally {
-            setIsUploading(false);
         }
-    }, [files, onUpload]);
+    }, [captureMode, stream, recordedClip, isRecording, capturePhoto, captureScanFrame, startRecording, stopRecording]);
 
-    // Cleanup on unmount
-    React.useEffect(() => {
-        return () => {
-            // Cleanup object URLs
-            files.forEach(file => URL.revokeObjectURL(file.preview));
+    // Image editor handlers
+    const handleEditSave = useCallback((file: File): void => {
+        if (editingFileId) {
+            replaceFile(editingFileId, file);
+        }
+        setEditingFileId(null);
+    }, [editingFileId, replaceFile]);
 
-            // Stop camera stream
-            if (stream) {
-                stream.getTracks().forEach(track => track.stop());
-            }
-        };
+    const handleEditCancel = useCallback((): void => {
+        setEditingFileId(null);
     }, []);
 
-    const acceptAttribute = acceptedTypes.join(',');
+    const handleCaptureEditSave = useCallback((file: File): void => {
+        addFiles([file]);
+        setCapturedPhoto(null);
+    }, [addFiles]);
+
+    // Skipping the editor still keeps the shot
+    const handleCaptureEditSkip = useCallback((): void => {
+        if (capturedPhoto) {
+            addFiles([capturedPhoto]);
+        }
+        setCapturedPhoto(null);
+    }, [capturedPhoto, addFiles]);
+
+    // Imperative API for forms and wizards
+    useImperativeHandle(ref, () => ({
+        openFilePicker,
+        openCamera: camera.open,
+        addFiles,
+        removeFile,
+        renameFile,
+        clear,
+        upload
+    }), [openFilePicker, camera.open, addFiles, removeFile, renameFile, clear, upload]);
+
+    // Rows are reordered with the grip handle or the arrow keys
+    const { draggingId, getItemProps, getHandleProps } = useSortable({
+        ids: files.map(f => f.id),
+        onMove: moveFile,
+        disabled: files.length < 2
+    });
+
+    const closeLightbox = useCallback((): void => {
+        setLightboxIndex(null);
+    }, []);
+
+    const editingFile = files.find(f => f.id === editingFileId);
+    const cameraBusy = camera.isRecording || camera.isSwitching || !!camera.recordedClip;
+
+    // Upload state shown next to each file
+    const renderStatus = (fileObj: FileObject): React.ReactNode => (
+        <>
+            {fileObj.status === 'queued' && (
+                <div className="flex items-center text-muted-foreground">
+                    <Clock className="h-4 w-4 me-1" />
+                    <span className="text-xs">{t('statusQueued')}</span>
+                </div>
+            )}
+            {fileObj.status === 'uploading' && (
+                <div className="flex items-center text-primary">
+                    <Loader2 className="h-4 w-4 me-1 animate-spin" />
+                    <span className="text-xs">
+                        {translator.formatPercent(fileObj.size > 0 ? fileObj.bytesSent / fileObj.size : 0)}
+                    </span>
+                </div>
+            )}
+            {fileObj.status === 'done' && (
+                <div className="flex items-center text-green-600">
+                    <Check className="h-4 w-4 me-1" />
+                    <span className="text-xs">{t('statusUploaded')}</span>
+                </div>
+            )}
+            {fileObj.status === 'failed' && (
+                <div className="flex items-center text-destructive">
+                    <AlertCircle className="h-4 w-4 me-1" />
+                    <span className="text-xs">{t('statusFailed')}</span>
+                </div>
+            )}
+        </>
+    );
+
+    // Per-file buttons, shared by the list and grid layouts
+    const handleRenameSave = useCallback((id: string, newName: string): void => {
+        renameFile(id, newName);
+        setRenamingFileId(null);
+    }, [renameFile]);
+
+    // Name of a file, or the rename field while it is being renamed
+    const renderName = (fileObj: FileObject, className: string): React.ReactNode => (
+        renamingFileId === fileObj.id ? (
+            <FileNameInput
+                name={fileObj.name}
+                label={t('newFileName', { name: fileObj.name })}
+                onSave={(newName) => handleRenameSave(fileObj.id, newName)}
+                onCancel={() => setRenamingFileId(null)}
+            />
+        ) : (
+            <span className={className}>{fileObj.name}</span>
+        )
+    );
+
+    const renderActions = (fileObj: FileObject): React.ReactNode => (
+        <>
+            {fileObj.status === 'uploading' && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => cancelUpload(fileObj.id)}
+                    title={t('cancelUpload')}
+                    aria-label={t('cancelUpload')}
+                    type="button"
+                >
+                    <Ban className="h-4 w-4" />
+                </Button>
+            )}
+
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCover(fileObj.id)}
+                aria-pressed={!!fileObj.isCover}
+                title={fileObj.isCover ? t('coverImage') : t('setAsCover')}
+                aria-label={t('coverImage')}
+                type="button"
+            >
+                <Star className={`h-4 w-4 ${fileObj.isCover ? 'fill-primary text-primary' : ''}`} />
+            </Button>
+
+            {(fileObj.status === 'queued' || fileObj.status === 'failed') && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRenamingFileId(fileObj.id)}
+                    title={t('renameFile')}
+                    aria-label={t('renameFile')}
+                    type="button"
+                >
+                    <Pencil className="h-4 w-4" />
+                </Button>
+            )}
+
+            {fileObj.type.startsWith('image/') && (fileObj.status === 'queued' || fileObj.status === 'failed') && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingFileId(fileObj.id)}
+                    title={t('editImage')}
+                    aria-label={t('editImage')}
+                    type="button"
+                >
+                    <Crop className="h-4 w-4" />
+                </Button>
+            )}
+
+            {fileObj.status === 'failed' && transport && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => uploadFile(fileObj)}
+                    title={t('retryUpload')}
+                    aria-label={t('retryUpload')}
+                    type="button"
+                >
+                    <RotateCcw className="h-4 w-4" />
+                </Button>
+            )}
+
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeFile(fileObj.id)}
+                disabled={fileObj.status === 'uploading'}
+                title={t('remove')}
+                aria-label={t('remove')}
+                type="button"
+            >
+                <X className="h-4 w-4" />
+            </Button>
+        </>
+    );
 
     return (
-        <div className={`w-full max-w-2xl mx-auto p-4 space-y-4 ${className}`}>
+        <div dir={translator.dir} lang={translator.locale} className={`w-full max-w-2xl mx-auto p-4 space-y-4 ${className}`}>
+            {/* Screen reader announcements */}
+            <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+                {announcement}
+            </div>
+
             {/* Camera Modal */}
-            {showCamera && (
+            {camera.isOpen && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-                    <Card className="w-full max-w-md">
+                    <Card {...getCameraDialogProps({
+                        className: 'w-full max-w-md focus:outline-none',
+                        'aria-describedby': shutterHintId,
+                        onKeyDown: handleCameraKeyDown
+                    })}>
                         <CardContent className="p-6">
                             <div className="space-y-4">
                                 <div className="flex items-center justify-between">
-                                    <h3 className="text-lg font-semibold">Take Photo</h3>
+                                    <h3 {...getCameraTitleProps({ className: 'text-lg font-semibold' })}>
+                                        {captureMode === 'video'
+                                            ? t('recordVideo')
+                                            : captureMode === 'document'
+                                                ? t('scanDocument')
+                                                : captureMode === 'barcode' ? t('scanBarcode') : t('takePhoto')}
+                                    </h3>
                                     <Button
                                         variant="ghost"
                                         size="sm"
-                                        onClick={stopCamera}
+                                        onClick={dismissCamera}
+                                        title={t('close')}
+                                        aria-label={t('close')}
                                         type="button"
                                     >
                                         <X className="h-4 w-4" />
                                     </Button>
                                 </div>
 
-                                <div className="relative bg-black rounded-lg overflow-hidden">
+                                {/* Mode switch */}
+                                {(canRecordVideo || documentScan || barcodeScan) && (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant={captureMode === 'photo' ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setCaptureMode('photo')}
+                                            aria-pressed={captureMode === 'photo'}
+                                            disabled={camera.isRecording || !!camera.recordedClip}
+                                            type="button"
+                                            className="flex-1"
+                                        >
+                                            <Camera className="h-4 w-4 me-2" />
+                                            {t('photoMode')}
+                                        </Button>
+                                        {canRecordVideo && (
+                                            <Button
+                                                variant={captureMode === 'video' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => setCaptureMode('video')}
+                                                aria-pressed={captureMode === 'video'}
+                                                disabled={camera.isRecording || !!camera.recordedClip || shots.length > 0}
+                                                type="button"
+                                                className="flex-1"
+                                            >
+                                                <Video className="h-4 w-4 me-2" />
+                                                {t('videoMode')}
+                                            </Button>
+                                        )}
+                                        {documentScan && (
+                                            <Button
+                                                variant={captureMode === 'document' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => setCaptureMode('document')}
+                                                aria-pressed={captureMode === 'document'}
+                                                disabled={camera.isRecording || !!camera.recordedClip || shots.length > 0}
+                                                type="button"
+                                                className="flex-1"
+                                            >
+                                                <ScanLine className="h-4 w-4 me-2" />
+                                                {t('scanMode')}
+                                            </Button>
+                                        )}
+                                        {barcodeScan && (
+                                            <Button
+                                                variant={captureMode === 'barcode' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => setCaptureMode('barcode')}
+                                                aria-pressed={captureMode === 'barcode'}
+                                                disabled={camera.isRecording || !!camera.recordedClip}
+                                                type="button"
+                                                className="flex-1"
+                                            >
+                                                <ScanBarcode className="h-4 w-4 me-2" />
+                                                {t('barcodeMode')}
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* Camera controls */}
+                                <div className="flex gap-2">
+                                    {camera.videoDevices.length > 1 && (
+                                        <select
+                                            value={camera.activeDeviceId ?? ''}
+                                            onChange={(e) => camera.switchCamera({ deviceId: e.target.value })}
+                                            disabled={cameraBusy}
+                                            aria-label={t('cameraSelect')}
+                                            className="h-8 min-w-0 flex-1 rounded-md border bg-background px-2 text-sm"
+                                        >
+                                            {camera.videoDevices.map((device, index) => (
+                                                <option key={device.deviceId} value={device.deviceId}>
+                                                    {device.label || t('cameraFallbackLabel', { index: index + 1 })}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    )}
+
+                                    <select
+                                        value={camera.resolution}
+                                        onChange={(e) => camera.changeResolution(e.target.value as ResolutionPreset)}
+                                        disabled={cameraBusy}
+                                        aria-label={t('resolutionSelect')}
+                                        className="h-8 rounded-md border bg-background px-2 text-sm"
+                                    >
+                                        {(Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[]).map(preset => (
+                                            <option key={preset} value={preset}>
+                                                {RESOLUTION_PRESETS[preset].label}
+                                            </option>
+                                        ))}
+                                    </select>
+
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={camera.flip}
+                                        disabled={cameraBusy}
+                                        title={t('flipCamera')}
+                                        aria-label={t('flipCamera')}
+                                        type="button"
+                                    >
+                                        <SwitchCamera className="h-4 w-4" />
+                                    </Button>
+                                </div>
+
+                                {/* Prefix for captured file names, when the template uses one */}
+                                {(options.capture?.fileName ?? DEFAULT_CAPTURE_TEMPLATE).includes('{prefix}') && (
+                                    <label className="flex items-center gap-2 text-sm">
+                                        <span className="flex-shrink-0">{t('namePrefix')}</span>
+                                        <input
+                                            value={camera.namePrefix}
+                                            onChange={(e) => camera.setNamePrefix(e.target.value)}
+                                            className="h-8 min-w-0 flex-1 rounded-md border bg-background px-2 text-sm"
+                                        />
+                                    </label>
+                                )}
+
+                                <div
+                                    role="group"
+                                    aria-label={t('cameraPreview')}
+                                    aria-describedby={shutterHintId}
+                                    tabIndex={0}
+                                    data-autofocus
+                                    className="relative bg-black rounded-lg overflow-hidden focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                                >
                                     <video
-                                        ref={videoRef}
-                                        autoPlay
-                                        playsInline
-                                        muted
-                                        className="w-full h-64 object-cover"
-                                        onLoadedMetadata={() => {
-                                            // Ensure video starts playing
-                                            if (videoRef.current) {
-                                                videoRef.current.play().catch(console.error);
-                                            }
-                                        }}
+                                        {...camera.getVideoProps()}
+                                        className={`w-full h-64 object-cover ${camera.facingMode === 'user' ? '-scale-x-100' : ''} ${camera.recordedClip ? 'hidden' : ''}`}
                                     />
+                                    {/* Recorded clip preview */}
+                                    {camera.recordedClip && (
+                                        <video
+                                            src={camera.recordedClip.url}
+                                            controls
+                                            playsInline
+                                            className="w-full h-64 object-contain"
+                                        />
+                                    )}
+                                    {/* Detected page outline, sliced like the object-cover video so the coordinates line up */}
+                                    {captureMode === 'document' && frameSize && (
+                                        <svg
+                                            viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+                                            preserveAspectRatio="xMidYMid slice"
+                                            className={`pointer-events-none absolute inset-0 h-full w-full ${camera.facingMode === 'user' ? '-scale-x-100' : ''}`}
+                                            aria-hidden="true"
+                                        >
+                                            {detectedQuad && (
+                                                <polygon
+                                                    points={detectedQuad.map(point => `${point.x * frameSize.width},${point.y * frameSize.height}`).join(' ')}
+                                                    className="fill-primary/20 stroke-primary"
+                                                    strokeWidth={3}
+                                                    vectorEffect="non-scaling-stroke"
+                                                />
+                                            )}
+                                        </svg>
+                                    )}
+                                    {captureMode === 'document' && camera.stream && (
+                                        <div className="absolute top-2 start-2 flex items-center gap-2 rounded bg-black/60 px-2 py-1 text-xs text-white">
+                                            <span>{detectedQuad ? t('pageFound') : t('lookingForPage')}</span>
+                                            {scanPages.length > 0 && <span>• {t('pagesScanned', { count: scanPages.length })}</span>}
+                                        </div>
+                                    )}
+                                    {/* Last code read, a live region so it is read out as codes come in */}
+                                    {captureMode === 'barcode' && camera.stream && (
+                                        <div
+                                            role="status"
+                                            className="absolute top-2 start-2 end-2 flex flex-col items-start gap-1 text-xs text-white"
+                                        >
+                                            <span className="max-w-full truncate rounded bg-black/60 px-2 py-1">
+                                                {lastCode
+                                                    ? t('codeDetected', { format: BARCODE_FORMAT_LABELS[lastCode.format] ?? lastCode.format, value: lastCode.value })
+                                                    : t('lookingForCode')}
+                                            </span>
+                                            {unreadableFormats.length > 0 && (
+                                                <span className="rounded bg-black/60 px-2 py-1">
+                                                    {t('barcodeFormatsUnsupported', {
+                                                        formats: unreadableFormats.map(format => BARCODE_FORMAT_LABELS[format]).join(', ')
+                                                    })}
+                                                </span>
+                                            )}
+                                        </div>
+                                    )}
+                                    {/* Elapsed recording time */}
+                                    {camera.isRecording && (
+                                        <div className="absolute top-2 start-2 flex items-center gap-1 rounded bg-black/60 px-2 py-1 text-xs text-white">
+                                            <Circle className="h-3 w-3 fill-red-500 text-red-500 animate-pulse" />
+                                            {formatDuration(camera.recordingSeconds)} / {formatDuration(camera.maxRecordingDuration)}
+                                        </div>
+                                    )}
+                                    {/* Self-timer countdown */}
+                                    {countdown !== null && (
+                                        <div role="status" className="absolute inset-0 flex items-center justify-center text-6xl font-bold text-white drop-shadow">
+                                            {countdown}
+                                        </div>
+                                    )}
+                                    {/* Shot under review, covers the live preview */}
+                                    {reviewedShot && (
+                                        <div className="absolute inset-0 bg-black">
+                                            <Image
+                                                src={reviewedShot.preview}
+                                                alt={t('reviewShot', { index: reviewedShotIndex + 1 })}
+                                                fill
+                                                unoptimized
+                                                sizes="512px"
+                                                className="object-contain"
+                                            />
+                                            <div className="absolute top-2 end-2 flex gap-2">
+                                                <Button
+                                                    variant="secondary"
+                                                    size="sm"
+                                                    onClick={() => discardShot(reviewedShot.id)}
+                                                    type="button"
+                                                >
+                                                    <X className="h-4 w-4 me-1" />
+                                                    {t('discardShot', { index: reviewedShotIndex + 1 })}
+                                                </Button>
+                                                <Button
+                                                    variant="secondary"
+                                                    size="sm"
+                                                    onClick={() => setReviewShotId(null)}
+                                                    type="button"
+                                                >
+                                                    <Camera className="h-4 w-4 me-1" />
+                                                    {t('backToCamera')}
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    )}
                                     {/* Loading indicator */}
-                                    {!stream && (
+                                    {!camera.stream && (
                                         <div className="absolute inset-0 flex items-center justify-center bg-gray-900">
-                                            <div className="text-white text-sm">Starting camera...</div>
+                                            <div role="status" className="text-white text-sm">{t('startingCamera')}</div>
                                         </div>
                                     )}
                                 </div>
+                                <p id={shutterHintId} className="sr-only">
+                                    {t('shutterHint', { mode: captureMode })}
+                                </p>
 
-                                <div className="flex justify-center gap-2">
-                                    <Button
-                                        onClick={capturePhoto}
-                                        size="lg"
-                                        type="button"
-                                        disabled={!stream}
-                                        className="flex-1"
-                                    >
-                                        <Camera className="h-5 w-5 mr-2" />
-                                        Capture Photo
-                                    </Button>
+                                {/* Shots of the current session */}
+                                {multiShot && (captureMode === 'photo' || captureMode === 'barcode') && (
+                                    <div className="space-y-2">
+                                        {shots.length > 0 && (
+                                            <ul aria-label={t('shotsTaken', { count: shots.length })} className="flex gap-2 overflow-x-auto pb-1">
+                                                {shots.map((shot, index) => (
+                                                    <li key={shot.id} className="relative shrink-0">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setReviewShotId(shot.id === reviewShotId ? null : shot.id)}
+                                                            aria-pressed={shot.id === reviewShotId}
+                                                            aria-label={t('reviewShot', { index: index + 1 })}
+                                                            className={`relative block h-14 w-14 overflow-hidden rounded border-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${shot.id === reviewShotId ? 'border-primary' : 'border-transparent'}`}
+                                                        >
+                                                            <Image src={shot.preview} alt="" fill unoptimized sizes="56px" className="object-cover" />
+                                                        </button>
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => discardShot(shot.id)}
+                                                            title={t('discardShot', { index: index + 1 })}
+                                                            aria-label={t('discardShot', { index: index + 1 })}
+                                                            className="absolute -top-1 -end-1 rounded-full bg-black/70 p-0.5 text-white hover:bg-black"
+                                                        >
+                                                            <X className="h-3 w-3" />
+                                                        </button>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        <p className="text-xs text-muted-foreground">
+                                            {t('shotsRemaining', { count: remainingShots })}
+                                        </p>
+                                    </div>
+                                )}
+
+                                <div className="flex flex-wrap justify-center gap-2">
+                                    {multiShot && (captureMode === 'photo' || captureMode === 'barcode') && (
+                                        <>
+                                            {countdown !== null ? (
+                                                <Button
+                                                    variant="outline"
+                                                    onClick={cancelShooting}
+                                                    size="lg"
+                                                    type="button"
+                                                >
+                                                    <X className="h-5 w-5 me-2" />
+                                                    {t('cancelTimer')}
+                                                </Button>
+                                            ) : (
+                                                <Button
+                                                    variant={timerDelay > 0 ? 'default' : 'outline'}
+                                                    onClick={() => setTimerIndex(prev => (prev + 1) % (timerDelays.length + 1))}
+                                                    size="lg"
+                                                    type="button"
+                                                    disabled={isCapturing}
+                                                    title={t('selfTimer', { seconds: timerDelay })}
+                                                    aria-label={t('selfTimer', { seconds: timerDelay })}
+                                                >
+                                                    <Timer className="h-5 w-5" />
+                                                    {timerDelay > 0 && <span className="ms-1">{t('timerSeconds', { seconds: timerDelay })}</span>}
+                                                </Button>
+                                            )}
+                                            <Button
+                                                variant="outline"
+                                                onClick={captureBurst}
+                                                size="lg"
+                                                type="button"
+                                                disabled={!camera.stream || isCapturing || remainingShots === 0}
+                                            >
+                                                <Layers className="h-5 w-5 me-2" />
+                                                {t('burst', { count: burstCount })}
+                                            </Button>
+                                        </>
+                                    )}
+
+                                    {(captureMode === 'photo' || captureMode === 'barcode') && (
+                                        <Button
+                                            onClick={capturePhoto}
+                                            size="lg"
+                                            type="button"
+                                            disabled={!camera.stream || (!!multiShot && (isCapturing || remainingShots === 0))}
+                                            className="flex-1"
+                                        >
+                                            <Camera className="h-5 w-5 me-2" />
+                                            {t('capturePhoto')}
+                                        </Button>
+                                    )}
+
+                                    {multiShot && shots.length > 0 && (
+                                        <Button
+                                            variant="outline"
+                                            onClick={finishSession}
+                                            size="lg"
+                                            type="button"
+                                            disabled={isCapturing}
+                                        >
+                                            <Check className="h-5 w-5 me-2" />
+                                            {t('useShots', { count: shots.length })}
+                                        </Button>
+                                    )}
+
+                                    {captureMode === 'document' && (
+                                        <>
+                                            <Button
+                                                onClick={captureScanFrame}
+                                                size="lg"
+                                                type="button"
+                                                disabled={!camera.stream}
+                                                className="flex-1"
+                                            >
+                                                <ScanLine className="h-5 w-5 me-2" />
+                                                {t('capturePhoto')}
+                                            </Button>
+                                            {scanPages.length > 0 && (
+                                                <Button
+                                                    variant="outline"
+                                                    onClick={() => {
+                                                        closeCamera();
+                                                        finishScan(scanPages);
+                                                    }}
+                                                    size="lg"
+                                                    type="button"
+                                                >
+                                                    <Check className="h-5 w-5 me-2" />
+                                                    {t('finishScan', { count: scanPages.length })}
+                                                </Button>
+                                            )}
+                                        </>
+                                    )}
+
+                                    {captureMode === 'video' && !camera.recordedClip && (
+                                        <>
+                                            <Button
+                                                variant="outline"
+                                                size="lg"
+                                                onClick={() => camera.setWithAudio(prev => !prev)}
+                                                disabled={camera.isRecording}
+                                                title={camera.withAudio ? t('recordWithoutAudio') : t('recordWithAudio')}
+                                                aria-label={camera.withAudio ? t('recordWithoutAudio') : t('recordWithAudio')}
+                                                type="button"
+                                            >
+                                                {camera.withAudio ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
+                                            </Button>
+                                            <Button
+                                                onClick={camera.isRecording ? camera.stopRecording : camera.startRecording}
+                                                size="lg"
+                                                variant={camera.isRecording ? 'destructive' : 'default'}
+                                                type="button"
+                                                disabled={!camera.stream}
+                                                className="flex-1"
+                                            >
+                                                {camera.isRecording ? (
+                                                    <>
+                                                        <Square className="h-5 w-5 me-2" />
+                                                        {t('stopRecording')}
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <Circle className="h-5 w-5 me-2" />
+                                                        {t('startRecording')}
+                                                    </>
+                                                )}
+                                            </Button>
+                                        </>
+                                    )}
+
+                                    {captureMode === 'video' && camera.recordedClip && (
+                                        <>
+                                            <Button
+                                                onClick={acceptClip}
+                                                size="lg"
+                                                type="button"
+                                                className="flex-1"
+                                            >
+                                                <Check className="h-5 w-5 me-2" />
+                                                {t('useClip')}
+                                            </Button>
+                                            <Button
+                                                variant="outline"
+                                                onClick={camera.discardClip}
+                                                size="lg"
+                                                type="button"
+                                            >
+                                                <RotateCcw className="h-5 w-5 me-2" />
+                                                {t('retake')}
+                                            </Button>
+                                        </>
+                                    )}
 
                                     <Button
                                         variant="outline"
-                                        onClick={stopCamera}
+                                        onClick={dismissCamera}
                                         size="lg"
                                         type="button"
                                     >
-                                        Cancel
+                                        {t('cancel')}
                                     </Button>
                                 </div>
                             </div>
@@ -379,20 +1020,62 @@ const CameraUploadComponent: React.FC<CameraUploadComponentProps> = ({
                 </div>
             )}
 
-            {/* Hidden canvas for photo capture */}
-            <canvas ref={canvasRef} className="hidden" />
+            {/* Lightbox */}
+            {lightboxIndex !== null && (
+                <FileLightbox
+                    files={files}
+                    index={lightboxIndex}
+                    onIndexChange={setLightboxIndex}
+                    onClose={closeLightbox}
+                    translator={translator}
+                />
+            )}
+
+            {/* Document Scanner */}
+            {scanFrame && (
+                <DocumentScanner
+                    file={scanFrame.file}
+                    initialQuad={scanFrame.quad}
+                    pageNumber={scanPages.length + 1}
+                    defaultEnhancement={scanEnhancement}
+                    canAddPage={scanPages.length + 1 < maxPages}
+                    onAddPage={handleScanAddPage}
+                    onDone={handleScanDone}
+                    onRetake={handleScanRetake}
+                    onCancel={handleScanCancel}
+                    translator={translator}
+                />
+            )}
+
+            {/* Image Editor */}
+            {editingFile && (
+                <ImageEditor
+                    file={editingFile.file}
+                    onSave={handleEditSave}
+                    onCancel={handleEditCancel}
+                    translator={translator}
+                />
+            )}
+            {capturedPhoto && (
+                <ImageEditor
+                    file={capturedPhoto}
+                    onSave={handleCaptureEditSave}
+                    onCancel={handleCaptureEditSkip}
+                    title={t('editPhoto')}
+                    cancelLabel={t('useOriginal')}
+                    translator={translator}
+                />
+            )}
 
             {/* Upload Area */}
-            <Card className={`transition-colors duration-200 ${isDragOver ? 'border-primary bg-primary/5' : 'border-dashed border-2'
-                }`}>
-                <CardContent
-                    className="p-8 text-center cursor-pointer"
-                    onDragEnter={handleDragEnter}
-                    onDragOver={handleDragOver}
-                    onDragLeave={handleDragLeave}
-                    onDrop={handleDrop}
-                    onClick={() => fileInputRef.current?.click()}
-                >
+            <Card className={`relative transition-colors duration-200 ${isDragOver ? 'border-primary bg-primary/5' : 'border-dashed border-2'
+                } ${isInvalid && !isDragOver ? 'border-destructive' : ''}`}>
+                <CardContent {...getRootProps({
+                    role: 'group',
+                    'aria-label': t('dropzoneLabel'),
+                    'aria-describedby': dropzoneHintId,
+                    className: 'p-8 text-center cursor-pointer rounded-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+                })}>
                     <div className="space-y-4">
                         <div className="flex justify-center">
                             <div className="p-4 bg-primary/10 rounded-full">
@@ -402,29 +1085,63 @@ const CameraUploadComponent: React.FC<CameraUploadComponentProps> = ({
 
                         <div>
                             <h3 className="text-lg font-semibold mb-2">
-                                Drop files here or click to upload
+                                {t('dropzoneTitle')}
                             </h3>
                             <p className="text-sm text-muted-foreground">
-                                Supports {acceptedTypes.join(', ')} up to {formatFileSize(maxFileSize)}
+                                {t('dropzoneAccepts', { types: acceptedTypes.join(', '), maxSize: formatFileSize(maxFileSize) })}
                             </p>
                             <p className="text-xs text-muted-foreground mt-1">
-                                Maximum {maxFiles} files ({files.length}/{maxFiles} uploaded)
+                                {t('dropzoneLimit', { maxFiles, count: files.length })}
+                            </p>
+                            {paste && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    {paste === 'zone' ? t('pasteZoneHint') : t('pasteDocumentHint')}
+                                </p>
+                            )}
+                            <p id={dropzoneHintId} className="sr-only">
+                                {t('dropzoneKeyboardHint')}
                             </p>
+                            {processingCount > 0 && (
+                                <p className="flex items-center justify-center text-xs text-muted-foreground mt-1">
+                                    <Loader2 className="h-3 w-3 me-1 animate-spin" />
+                                    {t('processingFiles', { count: processingCount })}
+                                </p>
+                            )}
+                            {isRestoring && (
+                                <p className="flex items-center justify-center text-xs text-muted-foreground mt-1">
+                                    <Loader2 className="h-3 w-3 me-1 animate-spin" />
+                                    {t('restoringFiles')}
+                                </p>
+                            )}
                         </div>
 
-                        <div className="flex gap-2 justify-center">
+                        <div className="flex flex-wrap gap-2 justify-center">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={(e: React.MouseEvent) => {
+                                    e.stopPropagation();
+                                    openFilePicker();
+                                }}
+                                disabled={isFull}
+                                type="button"
+                            >
+                                <Upload className="h-4 w-4 me-2" />
+                                {t('chooseFiles')}
+                            </Button>
+
                             <Button
                                 variant="outline"
                                 size="sm"
                                 onClick={(e: React.MouseEvent) => {
                                     e.stopPropagation();
-                                    fileInputRef.current?.click();
+                                    openFolderPicker();
                                 }}
-                                disabled={files.length >= maxFiles}
+                                disabled={isFull}
                                 type="button"
                             >
-                                <Upload className="h-4 w-4 mr-2" />
-                                Choose Files
+                                <FolderOpen className="h-4 w-4 me-2" />
+                                {t('chooseFolder')}
                             </Button>
 
                             <Button
@@ -432,99 +1149,263 @@ const CameraUploadComponent: React.FC<CameraUploadComponentProps> = ({
                                 size="sm"
                                 onClick={(e: React.MouseEvent) => {
                                     e.stopPropagation();
-                                    startCamera();
+                                    camera.open();
                                 }}
-                                disabled={files.length >= maxFiles}
+                                disabled={isFull}
                                 type="button"
                             >
-                                <Camera className="h-4 w-4 mr-2" />
-                                Take Photo
+                                <Camera className="h-4 w-4 me-2" />
+                                {t('takePhoto')}
                             </Button>
                         </div>
                     </div>
                 </CardContent>
+
+                {/* Form field mirroring the list, kept in the layout so validation bubbles anchor to the drop zone */}
+                {isFormField && (
+                    <input {...getFormInputProps({ className: 'absolute bottom-0 left-1/2 h-px w-px opacity-0 pointer-events-none' })} />
+                )}
             </Card>
 
+            {isInvalid && (
+                <p className="flex items-center text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4 me-2" />
+                    {t('requiredError')}
+                </p>
+            )}
+
             {/* Hidden File Input */}
-            <input
-                ref={fileInputRef}
-                type="file"
-                multiple
-                accept={acceptAttribute}
-                onChange={handleFileInput}
-                className="hidden"
-            />
+            <input {...getInputProps({ className: 'hidden' })} />
+            <input {...getDirectoryInputProps({ className: 'hidden' })} />
+
+            {/* Rejected Files */}
+            {rejections.length > 0 && (
+                <div className="rounded-lg border border-destructive/50 p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                        <div className="flex items-center font-medium text-destructive">
+                            <AlertCircle className="h-4 w-4 me-2" />
+                            {t('rejectedSummary', { count: rejections.length })}
+                        </div>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={dismissRejections}
+                            title={t('dismiss')}
+                            aria-label={t('dismiss')}
+                            type="button"
+                        >
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    <ul className="mt-1 space-y-1 text-xs text-muted-foreground">
+                        {rejections.map((rejection, index) => (
+                            <li key={`${rejection.file.name}-${index}`}>{rejection.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
 
             {/* File List */}
             {files.length > 0 && (
                 <Card>
                     <CardContent className="p-6">
                         <h3 className="text-lg font-semibold mb-4">
-                            Selected Files ({files.length})
+                            {t('selectedFiles', { count: files.length })}
                         </h3>
-                        <div className="space-y-3">
-                            {files.map((fileObj) => (
+                        <div className={layout === 'grid' ? 'grid grid-cols-2 sm:grid-cols-3 gap-3' : 'space-y-3'}>
+                            {files.map((fileObj, index) => layout === 'grid' ? (
                                 <div
                                     key={fileObj.id}
-                                    className="flex items-center gap-3 p-3 border rounded-lg"
+                                    {...getItemProps(fileObj.id)}
+                                    className={`relative flex flex-col overflow-hidden border rounded-lg bg-background ${draggingId === fileObj.id ? 'shadow-md ring-2 ring-primary' : ''}`}
                                 >
-                                    {/* File Preview */}
-                                    <div className="flex-shrink-0">
-                                        {fileObj.type.startsWith('image/') ? (
-                                            <Image
-                                                src={fileObj.preview}
-                                                alt={fileObj.name}
-                                                className="w-12 h-12 object-cover rounded"
-                                                width={48}
-                                                height={48}
-                                            />
-                                        ) : (
-                                            <div className="w-12 h-12 bg-muted rounded flex items-center justify-center">
-                                                <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                                    {/* Thumbnail */}
+                                    <button
+                                        type="button"
+                                        onClick={() => setLightboxIndex(index)}
+                                        title={t('previewFile', { name: fileObj.name })}
+                                        className="relative aspect-square w-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring"
+                                    >
+                                        <FileThumbnail fileObj={fileObj} />
+                                        {fileObj.status === 'uploading' && (
+                                            <div
+                                                role="progressbar"
+                                                aria-label={t('uploadProgress', { name: fileObj.name })}
+                                                aria-valuemin={0}
+                                                aria-valuemax={100}
+                                                aria-valuenow={Math.round(fileObj.size > 0 ? (fileObj.bytesSent / fileObj.size) * 100 : 0)}
+                                                className="absolute inset-x-0 bottom-0 h-1 bg-muted"
+                                            >
+                                                <div
+                                                    className="h-full bg-primary transition-all"
+                                                    style={{ width: `${fileObj.size > 0 ? (fileObj.bytesSent / fileObj.size) * 100 : 0}%` }}
+                                                />
                                             </div>
                                         )}
+                                    </button>
+
+                                    {fileObj.isCover && (
+                                        <span className="absolute top-1 start-1 rounded bg-primary px-1.5 py-0.5 text-[10px] font-semibold uppercase text-primary-foreground">
+                                            {t('cover')}
+                                        </span>
+                                    )}
+
+                                    {/* Drag Handle */}
+                                    {files.length > 1 && (
+                                        <div
+                                            {...getHandleProps(fileObj.id)}
+                                            aria-label={t('reorderFile', { name: fileObj.name, position: index + 1, total: files.length })}
+                                            title={t('reorderHint')}
+                                            className="absolute top-1 end-1 rounded bg-background/80 p-1 text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                        >
+                                            <GripVertical className="h-4 w-4" />
+                                        </div>
+                                    )}
+
+                                    {/* File Info */}
+                                    <div className="p-2 space-y-1">
+                                        <p className="text-xs font-medium truncate" title={fileObj.name}>
+                                            {renderName(fileObj, '')}
+                                        </p>
+                                        <div className="flex items-center justify-between gap-1 text-xs text-muted-foreground">
+                                            <span>{formatFileSize(fileObj.size)}</span>
+                                            {renderStatus(fileObj)}
+                                        </div>
+                                        {fileObj.status === 'failed' && fileObj.error && (
+                                            <p className="text-xs text-destructive truncate" title={fileObj.error}>
+                                                {fileObj.error}
+                                            </p>
+                                        )}
+                                        <div className="flex flex-wrap items-center justify-end">
+                                            {renderActions(fileObj)}
+                                        </div>
                                     </div>
+                                </div>
+                            ) : (
+                                <div
+                                    key={fileObj.id}
+                                    {...getItemProps(fileObj.id)}
+                                    className={`flex items-center gap-3 p-3 border rounded-lg bg-background ${draggingId === fileObj.id ? 'shadow-md ring-2 ring-primary' : ''}`}
+                                >
+                                    {/* Drag Handle */}
+                                    {files.length > 1 && (
+                                        <div
+                                            {...getHandleProps(fileObj.id)}
+                                            aria-label={t('reorderFile', { name: fileObj.name, position: index + 1, total: files.length })}
+                                            title={t('reorderHint')}
+                                            className="flex-shrink-0 rounded text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                        >
+                                            <GripVertical className="h-4 w-4" />
+                                        </div>
+                                    )}
+
+                                    {/* File Preview */}
+                                    <button
+                                        type="button"
+                                        onClick={() => setLightboxIndex(index)}
+                                        title={t('preview')}
+                                        className="relative w-12 h-12 flex-shrink-0 overflow-hidden rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                    >
+                                        <FileThumbnail fileObj={fileObj} />
+                                    </button>
 
                                     {/* File Info */}
                                     <div className="flex-grow min-w-0">
-                                        <p className="text-sm font-medium truncate" title={fileObj.name}>
-                                            {fileObj.name}
+                                        <p className="flex items-center gap-2 text-sm font-medium" title={fileObj.name}>
+                                            {renderName(fileObj, 'truncate')}
+                                            {fileObj.isCover && (
+                                                <span className="flex-shrink-0 rounded bg-primary px-1.5 py-0.5 text-[10px] font-semibold uppercase text-primary-foreground">
+                                                    {t('cover')}
+                                                </span>
+                                            )}
                                         </p>
                                         <p className="text-xs text-muted-foreground">
+                                            {fileObj.originalSize !== undefined && (
+                                                <span className="line-through me-1">{formatFileSize(fileObj.originalSize)}</span>
+                                            )}
                                             {formatFileSize(fileObj.size)} • {fileObj.type}
                                         </p>
+                                        {fileObj.metadata && (fileObj.metadata.cameraModel || fileObj.metadata.dateTaken) && (
+                                            <p className="text-xs text-muted-foreground truncate">
+                                                {[
+                                                    fileObj.metadata.cameraModel,
+                                                    fileObj.metadata.dateTaken && new Date(fileObj.metadata.dateTaken).toLocaleString(translator.locale),
+                                                    fileObj.metadata.width && `${fileObj.metadata.width}×${fileObj.metadata.height}`
+                                                ].filter(Boolean).join(' • ')}
+                                            </p>
+                                        )}
+                                        {fileObj.status === 'uploading' && (
+                                            <div
+                                                role="progressbar"
+                                                aria-label={t('uploadProgress', { name: fileObj.name })}
+                                                aria-valuemin={0}
+                                                aria-valuemax={100}
+                                                aria-valuenow={Math.round(fileObj.size > 0 ? (fileObj.bytesSent / fileObj.size) * 100 : 0)}
+                                                className="mt-1 h-1 w-full bg-muted rounded-full overflow-hidden"
+                                            >
+                                                <div
+                                                    className="h-full bg-primary transition-all"
+                                                    style={{ width: `${fileObj.size > 0 ? (fileObj.bytesSent / fileObj.size) * 100 : 0}%` }}
+                                                />
+                                            </div>
+                                        )}
+                                        {fileObj.status === 'failed' && fileObj.error && (
+                                            <p className="text-xs text-destructive truncate" title={fileObj.error}>
+                                                {fileObj.error}
+                                            </p>
+                                        )}
                                     </div>
 
                                     {/* Status */}
                                     <div className="flex items-center gap-2">
-                                        <div className="flex items-center text-green-600">
-                                            <Check className="h-4 w-4 mr-1" />
-                                            <span className="text-xs">Ready</span>
-                                        </div>
+                                        {renderStatus(fileObj)}
+                                        {renderActions(fileObj)}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
 
+                        {/* Upload Button */}
+                        <div className="mt-4 pt-4 border-t space-y-2">
+                            {/* Offline queue status */}
+                            {options.offlineQueue && (!queueStatus.isOnline || queueStatus.isActive) && (
+                                <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+                                    <div className="flex min-w-0 items-center">
+                                        {queueStatus.isOnline
+                                            ? <Clock className="h-4 w-4 me-2 flex-shrink-0" />
+                                            : <WifiOff className="h-4 w-4 me-2 flex-shrink-0" />}
+                                        <span className="truncate" title={queueStatus.lastError ?? undefined}>
+                                            {!queueStatus.isOnline
+                                                ? queueStatus.isActive ? t('queueOffline', { count: pendingCount }) : t('queueOfflineIdle')
+                                                : queueStatus.nextRetryAt
+                                                    ? t(queueStatus.lastError ? 'queueRetryingWithError' : 'queueRetrying', {
+                                                        attempt: queueStatus.attempt,
+                                                        error: queueStatus.lastError ?? '',
+                                                        time: new Date(queueStatus.nextRetryAt).toLocaleTimeString(translator.locale)
+                                                    })
+                                                    : t('queueUploading')}
+                                        </span>
+                                    </div>
+                                    {queueStatus.isOnline && queueStatus.nextRetryAt && (
                                         <Button
-                                            variant="ghost"
+                                            variant="outline"
                                             size="sm"
-                                            onClick={() => removeFile(fileObj.id)}
-                                            disabled={isUploading}
+                                            onClick={retryQueue}
                                             type="button"
                                         >
-                                            <X className="h-4 w-4" />
+                                            {t('retryNow')}
                                         </Button>
-                                    </div>
+                                    )}
                                 </div>
-                            ))}
-                        </div>
+                            )}
 
-                        {/* Upload Button */}
-                        <div className="mt-4 pt-4 border-t">
                             <Button
                                 className="w-full"
-                                onClick={handleUpload}
-                                disabled={isUploading || files.length === 0}
+                                onClick={upload}
+                                disabled={isUploading || pendingCount === 0}
                                 type="button"
                             >
-                                {isUploading ? 'Uploading...' : `Upload ${files.length} file${files.length !== 1 ? 's' : ''}`}
+                                {isUploading ? t('uploading') : t('uploadButton', { count: pendingCount })}
                             </Button>
                         </div>
                     </CardContent>
@@ -532,6 +1413,8 @@ const CameraUploadComponent: React.FC<CameraUploadComponentProps> = ({
             )}
         </div>
     );
-};
+});
+
+CameraUploadComponent.displayName = 'CameraUploadComponent';
 
 export default CameraUploadComponent;
\ No newline at end of file
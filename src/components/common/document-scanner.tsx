@@ -0,0 +1,321 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { X, Check, Plus, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import {
+    DEFAULT_QUAD,
+    createScannedPage,
+    detectDocumentInFrame,
+    flattenDocument,
+    isConvexQuad,
+    type DocumentEnhancement,
+    type Point,
+    type Quad,
+    type ScannedPage
+} from '@/lib/document-scan';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { useDialog } from '@/hooks/use-dialog';
+
+interface DocumentScannerProps {
+    file: File;                  // frame captured from the camera
+    initialQuad?: Quad | null;   // page outline found in the live preview
+    pageNumber: number;          // 1-based number of the page being adjusted
+    defaultEnhancement?: DocumentEnhancement;
+    canAddPage?: boolean;
+    onAddPage: (page: ScannedPage) => void;
+    onDone: (page: ScannedPage) => void;
+    onRetake: () => void;
+    onCancel: () => void;
+    translator?: Translator;
+}
+
+type CornerName = 'topLeft' | 'topRight' | 'bottomRight' | 'bottomLeft';
+
+const CORNERS: CornerName[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+const KEYBOARD_STEP = 0.01; // corner move per arrow key press
+
+const ENHANCEMENTS: { value: DocumentEnhancement; labelKey: 'enhanceColor' | 'enhanceGrayscale' | 'enhanceBlackWhite' }[] = [
+    { value: 'color', labelKey: 'enhanceColor' },
+    { value: 'grayscale', labelKey: 'enhanceGrayscale' },
+    { value: 'blackwhite', labelKey: 'enhanceBlackWhite' }
+];
+
+// Rough look of each enhancement on the unflattened preview
+const PREVIEW_FILTERS: Record<DocumentEnhancement, string> = {
+    color: '',
+    grayscale: 'grayscale contrast-125',
+    blackwhite: 'grayscale contrast-200 brightness-110'
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+// Corner adjustment for a captured page, then perspective correction and clean-up
+const DocumentScanner: React.FC<DocumentScannerProps> = ({
+    file,
+    initialQuad,
+    pageNumber,
+    defaultEnhancement = 'color',
+    canAddPage = false,
+    onAddPage,
+    onDone,
+    onRetake,
+    onCancel,
+    translator = defaultTranslator
+}) => {
+    const { t } = translator;
+    const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+    const [quad, setQuad] = useState<Quad>(initialQuad ?? DEFAULT_QUAD);
+    const [enhancement, setEnhancement] = useState<DocumentEnhancement>(defaultEnhancement);
+    const [isProcessing, setIsProcessing] = useState<boolean>(false);
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const draggingRef = useRef<number | null>(null); // index of the corner being dragged
+    const initialQuadRef = useRef(initialQuad);
+    const onCancelRef = useRef(onCancel);
+    const tRef = useRef(t);
+    const { getDialogProps, getTitleProps } = useDialog({ onClose: onCancel });
+    const hintId = React.useId();
+
+    useEffect(() => {
+        onCancelRef.current = onCancel;
+        tRef.current = t;
+    }, [onCancel, t]);
+
+    // Decode the frame, and find the page again at full size when the preview did not
+    useEffect(() => {
+        let cancelled = false;
+        let decoded: ImageBitmap | null = null;
+
+        createImageBitmap(file)
+            .then(result => {
+                decoded = result;
+                if (cancelled) {
+                    result.close();
+                    return;
+                }
+                setBitmap(result);
+                if (!initialQuadRef.current) {
+                    const detected = detectDocumentInFrame(result, result.width, result.height);
+                    if (detected) setQuad(detected);
+                }
+            })
+            .catch(error => {
+                console.error('Unable to decode scan:', error);
+                toast.error(tRef.current('editorOpenFailed'));
+                onCancelRef.current();
+            });
+
+        return () => {
+            cancelled = true;
+            decoded?.close();
+        };
+    }, [file]);
+
+    // Show the frame as captured, the outline is drawn over it
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!bitmap || !canvas || !context) return;
+
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        context.drawImage(bitmap, 0, 0);
+    }, [bitmap]);
+
+    const moveCorner = useCallback((index: number, point: Point): void => {
+        setQuad(prev => prev.map((corner, i) => (
+            i === index ? { x: clamp(point.x, 0, 1), y: clamp(point.y, 0, 1) } : corner
+        )) as Quad);
+    }, []);
+
+    // Corner drag handlers
+    const handlePointerDown = useCallback((index: number) => (e: React.PointerEvent<HTMLButtonElement>): void => {
+        e.preventDefault();
+        overlayRef.current?.setPointerCapture(e.pointerId);
+        draggingRef.current = index;
+    }, []);
+
+    const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+        const index = draggingRef.current;
+        const bounds = overlayRef.current?.getBoundingClientRect();
+        if (index === null || !bounds) return;
+        moveCorner(index, {
+            x: (e.clientX - bounds.left) / bounds.width,
+            y: (e.clientY - bounds.top) / bounds.height
+        });
+    }, [moveCorner]);
+
+    const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+        draggingRef.current = null;
+        overlayRef.current?.releasePointerCapture(e.pointerId);
+    }, []);
+
+    const handleCornerKeyDown = useCallback((index: number) => (e: React.KeyboardEvent<HTMLButtonElement>): void => {
+        const deltas: Record<string, [number, number]> = {
+            ArrowLeft: [-KEYBOARD_STEP, 0],
+            ArrowRight: [KEYBOARD_STEP, 0],
+            ArrowUp: [0, -KEYBOARD_STEP],
+            ArrowDown: [0, KEYBOARD_STEP]
+        };
+        const delta = deltas[e.key];
+        if (!delta) return;
+        e.preventDefault();
+        const corner = quad[index];
+        moveCorner(index, { x: corner.x + delta[0], y: corner.y + delta[1] });
+    }, [quad, moveCorner]);
+
+    // Flatten the page and hand it over
+    const processPage = useCallback(async (onPage: (page: ScannedPage) => void): Promise<void> => {
+        if (!bitmap) return;
+        if (!isConvexQuad(quad)) {
+            toast.error(t('scanInvalidCorners'));
+            return;
+        }
+
+        setIsProcessing(true);
+        try {
+            // Let the busy label paint before the synchronous pixel work
+            await new Promise(resolve => requestAnimationFrame(resolve));
+            const canvas = flattenDocument(bitmap, bitmap.width, bitmap.height, quad, enhancement);
+            onPage(await createScannedPage(canvas, pageNumber));
+        } catch (error) {
+            console.error('Unable to process scan:', error);
+            toast.error(t('scanFailed'));
+        } finally {
+            setIsProcessing(false);
+        }
+    }, [bitmap, quad, enhancement, pageNumber, t]);
+
+    const outline = quad.map(point => `${point.x * 100},${point.y * 100}`).join(' ');
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <Card {...getDialogProps({ className: 'w-full max-w-lg focus:outline-none' })}>
+                <CardContent className="p-6">
+                    <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 {...getTitleProps({ className: 'text-lg font-semibold' })}>{t('adjustPage', { page: pageNumber })}</h3>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={onCancel}
+                                title={t('close')}
+                                aria-label={t('close')}
+                                type="button"
+                            >
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+
+                        {/* Frame with the page outline */}
+                        <div className="flex justify-center bg-black rounded-lg overflow-hidden">
+                            <div className="relative max-h-80">
+                                <canvas ref={canvasRef} className={`block max-h-80 max-w-full ${PREVIEW_FILTERS[enhancement]}`} />
+                                {bitmap && (
+                                    <div
+                                        ref={overlayRef}
+                                        className="absolute inset-0 touch-none"
+                                        onPointerMove={handlePointerMove}
+                                        onPointerUp={handlePointerUp}
+                                        onPointerCancel={handlePointerUp}
+                                    >
+                                        <svg
+                                            viewBox="0 0 100 100"
+                                            preserveAspectRatio="none"
+                                            className="pointer-events-none absolute inset-0 h-full w-full"
+                                            aria-hidden="true"
+                                        >
+                                            <polygon
+                                                points={outline}
+                                                className="fill-primary/20 stroke-primary"
+                                                strokeWidth={2}
+                                                vectorEffect="non-scaling-stroke"
+                                            />
+                                        </svg>
+                                        {quad.map((corner, index) => (
+                                            <button
+                                                key={CORNERS[index]}
+                                                type="button"
+                                                aria-label={t('scanCorner', { corner: CORNERS[index] })}
+                                                aria-describedby={hintId}
+                                                onPointerDown={handlePointerDown(index)}
+                                                onKeyDown={handleCornerKeyDown(index)}
+                                                className="absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 cursor-move rounded-full border-2 border-primary bg-white shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                                                style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                                {!bitmap && (
+                                    <div className="flex h-64 w-64 items-center justify-center text-white text-sm">
+                                        {t('loadingImage')}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                        <p id={hintId} className="text-xs text-muted-foreground">
+                            {t('scanCornerHint')}
+                        </p>
+
+                        {/* Enhancement */}
+                        <div role="group" aria-label={t('enhancement')} className="flex flex-wrap gap-2">
+                            {ENHANCEMENTS.map(option => (
+                                <Button
+                                    key={option.value}
+                                    variant={enhancement === option.value ? 'default' : 'outline'}
+                                    size="sm"
+                                    onClick={() => setEnhancement(option.value)}
+                                    aria-pressed={enhancement === option.value}
+                                    type="button"
+                                >
+                                    {t(option.labelKey)}
+                                </Button>
+                            ))}
+                        </div>
+
+                        <div className="flex flex-wrap justify-center gap-2">
+                            <Button
+                                onClick={() => processPage(onDone)}
+                                size="lg"
+                                type="button"
+                                disabled={!bitmap || isProcessing}
+                                className="flex-1"
+                            >
+                                <Check className="h-5 w-5 me-2" />
+                                {isProcessing ? t('saving') : t('finishScan', { count: pageNumber })}
+                            </Button>
+
+                            {canAddPage && (
+                                <Button
+                                    variant="outline"
+                                    onClick={() => processPage(onAddPage)}
+                                    size="lg"
+                                    type="button"
+                                    disabled={!bitmap || isProcessing}
+                                >
+                                    <Plus className="h-5 w-5 me-2" />
+                                    {t('addPage')}
+                                </Button>
+                            )}
+
+                            <Button
+                                variant="outline"
+                                onClick={onRetake}
+                                size="lg"
+                                type="button"
+                                disabled={isProcessing}
+                            >
+                                <RotateCcw className="h-5 w-5 me-2" />
+                                {t('retake')}
+                            </Button>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default DocumentScanner;
@@ -0,0 +1,246 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, ImageIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Image from 'next/image';
+import type { FileObject } from '@/hooks/use-camera-uploader';
+import { useDialog } from '@/hooks/use-dialog';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+
+interface FileLightboxProps {
+    files: FileObject[];
+    index: number;
+    onIndexChange: (index: number) => void;
+    onClose: () => void;
+    translator?: Translator;
+}
+
+interface PanState {
+    startX: number;
+    startY: number;
+    startOffset: { x: number; y: number };
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+// Full screen viewer for the selected files, previews are shown straight from their object URLs
+const FileLightbox: React.FC<FileLightboxProps> = ({ files, index, onIndexChange, onClose, translator = defaultTranslator }) => {
+    const { t, dir } = translator;
+    const [zoom, setZoom] = useState<number>(MIN_ZOOM);
+    const [offset, setOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+    const panRef = useRef<PanState | null>(null);
+    const { getDialogProps, getTitleProps } = useDialog({ onClose });
+
+    const fileObj = files[index];
+    const isImage = fileObj?.type.startsWith('image/') ?? false;
+    const isVideo = fileObj?.type.startsWith('video/') ?? false;
+    const hasMultiple = files.length > 1;
+
+    // Every file opens unzoomed
+    useEffect(() => {
+        setZoom(MIN_ZOOM);
+        setOffset({ x: 0, y: 0 });
+    }, [index]);
+
+    const changeZoom = useCallback((delta: number): void => {
+        const next = clamp(zoom + delta, MIN_ZOOM, MAX_ZOOM);
+        setZoom(next);
+        if (next === MIN_ZOOM) {
+            setOffset({ x: 0, y: 0 });
+        }
+    }, [zoom]);
+
+    const showPrevious = useCallback((): void => {
+        onIndexChange((index - 1 + files.length) % files.length);
+    }, [index, files.length, onIndexChange]);
+
+    const showNext = useCallback((): void => {
+        onIndexChange((index + 1) % files.length);
+    }, [index, files.length, onIndexChange]);
+
+    // Keyboard navigation, the arrow pointing in reading direction goes to the next file (Escape is handled by the dialog)
+    useEffect(() => {
+        const nextKey = dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+        const previousKey = dir === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+        const handleKeyDown = (e: KeyboardEvent): void => {
+            if (e.key === previousKey && hasMultiple) {
+                showPrevious();
+            } else if (e.key === nextKey && hasMultiple) {
+                showNext();
+            } else if ((e.key === '+' || e.key === '=') && isImage) {
+                changeZoom(ZOOM_STEP);
+            } else if (e.key === '-' && isImage) {
+                changeZoom(-ZOOM_STEP);
+            } else {
+                return;
+            }
+            e.preventDefault();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [dir, hasMultiple, isImage, showPrevious, showNext, changeZoom]);
+
+    // The list can shrink while the lightbox is open
+    useEffect(() => {
+        if (!fileObj) onClose();
+    }, [fileObj, onClose]);
+
+    // Pan a zoomed image
+    const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+        if (zoom === MIN_ZOOM) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        panRef.current = { startX: e.clientX, startY: e.clientY, startOffset: offset };
+    }, [zoom, offset]);
+
+    const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+        const pan = panRef.current;
+        if (!pan) return;
+        setOffset({
+            x: pan.startOffset.x + (e.clientX - pan.startX) / zoom,
+            y: pan.startOffset.y + (e.clientY - pan.startY) / zoom
+        });
+    }, [zoom]);
+
+    const handlePointerUp = useCallback((): void => {
+        panRef.current = null;
+    }, []);
+
+    const handleWheel = useCallback((e: React.WheelEvent<HTMLDivElement>): void => {
+        if (!isImage) return;
+        changeZoom(e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP);
+    }, [isImage, changeZoom]);
+
+    if (!fileObj) return null;
+
+    return (
+        <div {...getDialogProps({ className: 'fixed inset-0 z-50 flex flex-col bg-black/90 text-white focus:outline-none' })}>
+            {/* Header */}
+            <div className="flex items-center gap-2 p-3">
+                <p {...getTitleProps({ className: 'min-w-0 flex-1 truncate text-sm', title: fileObj.name })}>
+                    {fileObj.name}
+                    {hasMultiple && (
+                        <span className="ms-2 text-white/60">{t('lightboxPosition', { index: index + 1, total: files.length })}</span>
+                    )}
+                </p>
+                {isImage && (
+                    <>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => changeZoom(-ZOOM_STEP)}
+                            disabled={zoom === MIN_ZOOM}
+                            title={t('zoomOut')}
+                            aria-label={t('zoomOut')}
+                            type="button"
+                            className="text-white hover:bg-white/10 hover:text-white"
+                        >
+                            <ZoomOut className="h-4 w-4" />
+                        </Button>
+                        <span aria-live="polite" className="w-10 text-center text-xs tabular-nums">{translator.formatPercent(zoom)}</span>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => changeZoom(ZOOM_STEP)}
+                            disabled={zoom === MAX_ZOOM}
+                            title={t('zoomIn')}
+                            aria-label={t('zoomIn')}
+                            type="button"
+                            className="text-white hover:bg-white/10 hover:text-white"
+                        >
+                            <ZoomIn className="h-4 w-4" />
+                        </Button>
+                    </>
+                )}
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onClose}
+                    title={t('close')}
+                    aria-label={t('close')}
+                    type="button"
+                    className="text-white hover:bg-white/10 hover:text-white"
+                >
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+
+            {/* Viewer */}
+            <div className="relative flex min-h-0 flex-1 items-center justify-center overflow-hidden px-4 pb-4">
+                {isImage && (
+                    <div
+                        className={`relative h-full w-full ${zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+                        style={{
+                            transform: `scale(${zoom}) translate(${offset.x}px, ${offset.y}px)`,
+                            touchAction: zoom > MIN_ZOOM ? 'none' : undefined
+                        }}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        onWheel={handleWheel}
+                        onDoubleClick={() => changeZoom(zoom > MIN_ZOOM ? -MAX_ZOOM : 1)}
+                    >
+                        <Image
+                            src={fileObj.preview}
+                            alt={fileObj.name}
+                            fill
+                            unoptimized
+                            draggable={false}
+                            className="select-none object-contain"
+                        />
+                    </div>
+                )}
+                {isVideo && (
+                    <video
+                        key={fileObj.id}
+                        src={fileObj.preview}
+                        poster={fileObj.thumbnail}
+                        controls
+                        autoPlay
+                        playsInline
+                        className="max-h-full max-w-full"
+                    />
+                )}
+                {!isImage && !isVideo && (
+                    <div className="flex flex-col items-center gap-2 text-white/60">
+                        <ImageIcon className="h-12 w-12" />
+                        <span className="text-sm">{t('noPreview')}</span>
+                    </div>
+                )}
+
+                {hasMultiple && (
+                    <>
+                        <Button
+                            variant="ghost"
+                            size="lg"
+                            onClick={showPrevious}
+                            title={t('previous')}
+                            aria-label={t('previous')}
+                            type="button"
+                            className="absolute start-2 top-1/2 -translate-y-1/2 bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                        >
+                            <ChevronLeft className="h-6 w-6 rtl:-scale-x-100" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="lg"
+                            onClick={showNext}
+                            title={t('next')}
+                            aria-label={t('next')}
+                            type="button"
+                            className="absolute end-2 top-1/2 -translate-y-1/2 bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                        >
+                            <ChevronRight className="h-6 w-6 rtl:-scale-x-100" />
+                        </Button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default FileLightbox;
@@ -0,0 +1,428 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { X, RotateCcw, RotateCw, FlipHorizontal, FlipVertical, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { renameForType } from '@/lib/image-compression';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { useDialog } from '@/hooks/use-dialog';
+
+// Type definitions
+type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+interface CropRect {
+    x: number;      // all values are fractions of the transformed image, 0-1
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface DragState {
+    mode: 'move' | CropHandle;
+    startX: number;
+    startY: number;
+    startRect: CropRect;
+}
+
+interface AspectPreset {
+    label: string;
+    value: number | null; // width / height, null for free
+}
+
+interface ImageEditorProps {
+    file: File;
+    onSave: (file: File) => void;
+    onCancel: () => void;
+    title?: string;
+    cancelLabel?: string;
+    translator?: Translator;
+}
+
+const ASPECT_PRESETS: AspectPreset[] = [
+    { label: 'Free', value: null },
+    { label: '1:1', value: 1 },
+    { label: '4:3', value: 4 / 3 },
+    { label: '16:9', value: 16 / 9 }
+];
+
+// Types the canvas can write back without changing format
+const OUTPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MIN_CROP = 0.05;
+const KEYBOARD_STEP = 0.02; // crop move/resize per arrow key press
+const FULL_RECT: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+// Largest centered rect with the given normalized height/width ratio
+const fitRect = (ratio: number | null): CropRect => {
+    if (!ratio) return FULL_RECT;
+    const width = ratio <= 1 ? 1 : 1 / ratio;
+    const height = width * ratio;
+    return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+// Resize from a corner while keeping the opposite corner anchored
+const resizeRect = (start: CropRect, handle: CropHandle, dx: number, dy: number, ratio: number | null): CropRect => {
+    const left = handle === 'nw' || handle === 'sw';
+    const top = handle === 'nw' || handle === 'ne';
+    const anchorX = left ? start.x + start.width : start.x;
+    const anchorY = top ? start.y + start.height : start.y;
+    const maxWidth = left ? anchorX : 1 - anchorX;
+    const maxHeight = top ? anchorY : 1 - anchorY;
+
+    let width = clamp(start.width + (left ? -dx : dx), MIN_CROP, maxWidth);
+    let height = clamp(start.height + (top ? -dy : dy), MIN_CROP, maxHeight);
+
+    if (ratio) {
+        height = width * ratio;
+        if (height > maxHeight) {
+            height = maxHeight;
+            width = height / ratio;
+        }
+    }
+
+    return {
+        x: left ? anchorX - width : anchorX,
+        y: top ? anchorY - height : anchorY,
+        width,
+        height
+    };
+};
+
+const ImageEditor: React.FC<ImageEditorProps> = ({
+    file,
+    onSave,
+    onCancel,
+    title,
+    cancelLabel,
+    translator = defaultTranslator
+}) => {
+    const { t } = translator;
+    const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+    const [rotation, setRotation] = useState<number>(0); // degrees, multiple of 90
+    const [flipX, setFlipX] = useState<boolean>(false);
+    const [flipY, setFlipY] = useState<boolean>(false);
+    const [aspect, setAspect] = useState<number | null>(null);
+    const [crop, setCrop] = useState<CropRect>(FULL_RECT);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<DragState | null>(null);
+    const onCancelRef = useRef(onCancel);
+    const tRef = useRef(t);
+    const { getDialogProps, getTitleProps } = useDialog({ onClose: onCancel });
+
+    useEffect(() => {
+        onCancelRef.current = onCancel;
+        tRef.current = t;
+    }, [onCancel, t]);
+
+    // Decode the source image
+    useEffect(() => {
+        let cancelled = false;
+        let decoded: ImageBitmap | null = null;
+
+        createImageBitmap(file)
+            .then(result => {
+                decoded = result;
+                if (cancelled) {
+                    result.close();
+                } else {
+                    setBitmap(result);
+                }
+            })
+            .catch(error => {
+                console.error('Unable to decode image:', error);
+                toast.error(tRef.current('editorOpenFailed'));
+                onCancelRef.current();
+            });
+
+        return () => {
+            cancelled = true;
+            decoded?.close();
+        };
+    }, [file]);
+
+    // Normalized height/width ratio of the crop for the selected aspect
+    const getCropRatio = useCallback((value: number | null): number | null => {
+        const canvas = canvasRef.current;
+        if (!value || !canvas || canvas.height === 0) return null;
+        return (canvas.width / canvas.height) / value;
+    }, []);
+
+    // Draw the rotated/flipped image; the crop is taken from this canvas
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!bitmap || !canvas || !context) return;
+
+        const quarterTurn = rotation % 180 !== 0;
+        canvas.width = quarterTurn ? bitmap.height : bitmap.width;
+        canvas.height = quarterTurn ? bitmap.width : bitmap.height;
+
+        context.save();
+        context.translate(canvas.width / 2, canvas.height / 2);
+        context.rotate((rotation * Math.PI) / 180);
+        context.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+        context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+        context.restore();
+    }, [bitmap, rotation, flipX, flipY]);
+
+    // Start from the largest crop for the aspect whenever the canvas shape or aspect changes
+    useEffect(() => {
+        if (!bitmap) return;
+        setCrop(fitRect(getCropRatio(aspect)));
+    }, [bitmap, rotation, aspect, getCropRatio]);
+
+    const rotate = useCallback((degrees: number): void => {
+        setRotation(prev => (prev + degrees + 360) % 360);
+    }, []);
+
+    // Flips apply to the image as displayed, so swap axes when it is turned sideways
+    const flip = useCallback((axis: 'horizontal' | 'vertical'): void => {
+        const sideways = rotation % 180 !== 0;
+        if ((axis === 'horizontal') !== sideways) {
+            setFlipX(prev => !prev);
+        } else {
+            setFlipY(prev => !prev);
+        }
+    }, [rotation]);
+
+    const reset = useCallback((): void => {
+        setRotation(0);
+        setFlipX(false);
+        setFlipY(false);
+        setAspect(null);
+        setCrop(FULL_RECT);
+    }, []);
+
+    // Crop drag handlers
+    const handlePointerDown = useCallback((mode: DragState['mode']) => (e: React.PointerEvent<HTMLDivElement>): void => {
+        e.preventDefault();
+        e.stopPropagation();
+        overlayRef.current?.setPointerCapture(e.pointerId);
+        dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startRect: crop };
+    }, [crop]);
+
+    const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+        const drag = dragRef.current;
+        const bounds = overlayRef.current?.getBoundingClientRect();
+        if (!drag || !bounds) return;
+
+        const dx = (e.clientX - drag.startX) / bounds.width;
+        const dy = (e.clientY - drag.startY) / bounds.height;
+        const { startRect } = drag;
+
+        if (drag.mode === 'move') {
+            setCrop({
+                ...startRect,
+                x: clamp(startRect.x + dx, 0, 1 - startRect.width),
+                y: clamp(startRect.y + dy, 0, 1 - startRect.height)
+            });
+        } else {
+            setCrop(resizeRect(startRect, drag.mode, dx, dy, getCropRatio(aspect)));
+        }
+    }, [aspect, getCropRatio]);
+
+    const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+        dragRef.current = null;
+        overlayRef.current?.releasePointerCapture(e.pointerId);
+    }, []);
+
+    // Arrow keys move the crop, with Shift they resize it from the bottom right corner
+    const handleCropKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>): void => {
+        const deltas: Record<string, [number, number]> = {
+            ArrowLeft: [-KEYBOARD_STEP, 0],
+            ArrowRight: [KEYBOARD_STEP, 0],
+            ArrowUp: [0, -KEYBOARD_STEP],
+            ArrowDown: [0, KEYBOARD_STEP]
+        };
+        const delta = deltas[e.key];
+        if (!delta) return;
+        e.preventDefault();
+
+        const [dx, dy] = delta;
+        if (e.shiftKey) {
+            // A fixed aspect follows the width, so up/down resize through it as well
+            const ratio = getCropRatio(aspect);
+            setCrop(prev => resizeRect(prev, 'se', ratio ? dx + dy : dx, dy, ratio));
+        } else {
+            setCrop(prev => ({
+                ...prev,
+                x: clamp(prev.x + dx, 0, 1 - prev.width),
+                y: clamp(prev.y + dy, 0, 1 - prev.height)
+            }));
+        }
+    }, [aspect, getCropRatio]);
+
+    // Export the cropped region as a new file
+    const handleSave = useCallback((): void => {
+        const source = canvasRef.current;
+        if (!source || !bitmap) return;
+
+        const sx = Math.round(crop.x * source.width);
+        const sy = Math.round(crop.y * source.height);
+        const width = Math.max(1, Math.round(crop.width * source.width));
+        const height = Math.max(1, Math.round(crop.height * source.height));
+
+        const output = document.createElement('canvas');
+        output.width = width;
+        output.height = height;
+        const context = output.getContext('2d');
+        if (!context) {
+            toast.error(t('editorUnsupported'));
+            return;
+        }
+        context.drawImage(source, sx, sy, width, height, 0, 0, width, height);
+
+        const type = OUTPUT_TYPES.includes(file.type) ? file.type : 'image/jpeg';
+        setIsSaving(true);
+        output.toBlob((blob) => {
+            setIsSaving(false);
+            if (!blob) {
+                toast.error(t('editorSaveFailed'));
+                return;
+            }
+            onSave(new File([blob], renameForType(file.name, type), {
+                type,
+                lastModified: Date.now()
+            }));
+        }, type, 0.92);
+    }, [bitmap, crop, file, onSave, t]);
+
+    const handles: CropHandle[] = ['nw', 'ne', 'sw', 'se'];
+    const handlePositions: Record<CropHandle, string> = {
+        nw: '-left-1.5 -top-1.5 cursor-nwse-resize',
+        ne: '-right-1.5 -top-1.5 cursor-nesw-resize',
+        sw: '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+        se: '-right-1.5 -bottom-1.5 cursor-nwse-resize'
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <Card {...getDialogProps({ className: 'w-full max-w-lg focus:outline-none' })}>
+                <CardContent className="p-6">
+                    <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 {...getTitleProps({ className: 'text-lg font-semibold' })}>{title ?? t('editImageTitle')}</h3>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={onCancel}
+                                title={t('close')}
+                                aria-label={t('close')}
+                                type="button"
+                            >
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+
+                        {/* Image with crop overlay */}
+                        <div className="flex justify-center bg-black rounded-lg overflow-hidden">
+                            <div className="relative max-h-80">
+                                <canvas ref={canvasRef} className="block max-h-80 max-w-full" />
+                                {bitmap && (
+                                    <div
+                                        ref={overlayRef}
+                                        className="absolute inset-0 touch-none"
+                                        onPointerMove={handlePointerMove}
+                                        onPointerUp={handlePointerUp}
+                                        onPointerCancel={handlePointerUp}
+                                    >
+                                        <div
+                                            role="group"
+                                            aria-label={t('cropArea')}
+                                            tabIndex={0}
+                                            onKeyDown={handleCropKeyDown}
+                                            className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] cursor-move focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                            style={{
+                                                left: `${crop.x * 100}%`,
+                                                top: `${crop.y * 100}%`,
+                                                width: `${crop.width * 100}%`,
+                                                height: `${crop.height * 100}%`
+                                            }}
+                                            onPointerDown={handlePointerDown('move')}
+                                        >
+                                            {handles.map(handle => (
+                                                <div
+                                                    key={handle}
+                                                    className={`absolute h-3 w-3 rounded-sm bg-white ${handlePositions[handle]}`}
+                                                    onPointerDown={handlePointerDown(handle)}
+                                                />
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                                {!bitmap && (
+                                    <div className="flex h-64 w-64 items-center justify-center text-white text-sm">
+                                        {t('loadingImage')}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Aspect ratio presets */}
+                        <div className="flex flex-wrap gap-2">
+                            {ASPECT_PRESETS.map(preset => (
+                                <Button
+                                    key={preset.label}
+                                    variant={aspect === preset.value ? 'default' : 'outline'}
+                                    size="sm"
+                                    onClick={() => setAspect(preset.value)}
+                                    aria-pressed={aspect === preset.value}
+                                    type="button"
+                                >
+                                    {preset.value === null ? t('cropFree') : preset.label}
+                                </Button>
+                            ))}
+                        </div>
+
+                        {/* Transform tools */}
+                        <div className="flex flex-wrap gap-2">
+                            <Button variant="outline" size="sm" onClick={() => rotate(-90)} title={t('rotateLeft')} aria-label={t('rotateLeft')} type="button">
+                                <RotateCcw className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => rotate(90)} title={t('rotateRight')} aria-label={t('rotateRight')} type="button">
+                                <RotateCw className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => flip('horizontal')} title={t('flipHorizontal')} aria-label={t('flipHorizontal')} type="button">
+                                <FlipHorizontal className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => flip('vertical')} title={t('flipVertical')} aria-label={t('flipVertical')} type="button">
+                                <FlipVertical className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={reset} type="button">
+                                {t('reset')}
+                            </Button>
+                        </div>
+
+                        <div className="flex justify-center gap-2">
+                            <Button
+                                onClick={handleSave}
+                                size="lg"
+                                type="button"
+                                disabled={!bitmap || isSaving}
+                                className="flex-1"
+                            >
+                                <Check className="h-5 w-5 me-2" />
+                                {isSaving ? t('saving') : t('apply')}
+                            </Button>
+
+                            <Button
+                                variant="outline"
+                                onClick={onCancel}
+                                size="lg"
+                                type="button"
+                            >
+                                {cancelLabel ?? t('cancel')}
+                            </Button>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default ImageEditor;
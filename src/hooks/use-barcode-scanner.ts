@@ -0,0 +1,98 @@
+import React, { useState, useRef } from 'react';
+import {
+    createBarcodeReader,
+    DEFAULT_BARCODE_FORMATS,
+    type BarcodeDecoder,
+    type BarcodeFormat,
+    type BarcodeReader,
+    type DetectedCode
+} from '@/lib/barcode';
+
+export interface UseBarcodeScannerOptions {
+    videoRef: React.RefObject<HTMLVideoElement | null>;
+    enabled?: boolean;
+    formats?: BarcodeFormat[];
+    decoder?: BarcodeDecoder; // used when the browser has no BarcodeDetector
+    interval?: number;        // ms between detection passes
+    repeatAfter?: number;     // ms before the same code is reported again
+    onDetected?: (code: DetectedCode) => void;
+}
+
+// Read barcodes from the live preview a few times a second
+export const useBarcodeScanner = ({
+    videoRef,
+    enabled = true,
+    formats = DEFAULT_BARCODE_FORMATS,
+    decoder,
+    interval = 200,
+    repeatAfter = 3000,
+    onDetected
+}: UseBarcodeScannerOptions) => {
+    const [lastCode, setLastCode] = useState<DetectedCode | null>(null);
+    const [reader, setReader] = useState<BarcodeReader | null>(null);
+
+    const onDetectedRef = useRef(onDetected);
+    onDetectedRef.current = onDetected;
+    const lastSeenRef = useRef<{ key: string; time: number } | null>(null);
+
+    // Formats arrive as a new array on every render, compare them by value
+    const formatsKey = formats.join(',');
+
+    // Set up when scanning starts, so the fallback decoders are only loaded for people who scan
+    React.useEffect(() => {
+        if (!enabled) return;
+
+        let cancelled = false;
+        createBarcodeReader(formatsKey.split(',') as BarcodeFormat[], decoder)
+            .then(result => {
+                if (!cancelled) setReader(result);
+            })
+            .catch(error => console.error('Unable to set up barcode reading:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [enabled, formatsKey, decoder]);
+
+    React.useEffect(() => {
+        if (!enabled) {
+            setLastCode(null);
+            return;
+        }
+        if (!reader) return;
+
+        let busy = false;
+        const timer = window.setInterval(async () => {
+            const video = videoRef.current;
+            if (busy || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+            busy = true;
+            try {
+                const [code] = await reader.detect(video);
+                if (!code) return;
+
+                // Holding a code in front of the camera reports it once, not on every pass
+                const key = `${code.format}:${code.value}`;
+                const now = Date.now();
+                const lastSeen = lastSeenRef.current;
+                lastSeenRef.current = { key, time: now };
+                if (lastSeen?.key === key && now - lastSeen.time < repeatAfter) return;
+
+                setLastCode(code);
+                onDetectedRef.current?.(code);
+            } catch (error) {
+                console.error('Barcode detection failed:', error);
+            } finally {
+                busy = false;
+            }
+        }, interval);
+
+        return () => window.clearInterval(timer);
+    }, [videoRef, enabled, reader, interval, repeatAfter]);
+
+    return {
+        lastCode,
+        isNative: reader?.isNative ?? false,
+        supportedFormats: reader?.formats ?? null // null until the reader is set up
+    };
+};
@@ -0,0 +1,854 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { toast } from 'sonner';
+import { UploadHttpError, type UploadTransport } from '@/lib/upload-transport';
+import { getUploadErrorMessage, isUploadManifest, type UploadManifestEntry } from '@/lib/upload-api';
+import {
+    checkFile,
+    isAcceptedFile,
+    isAcceptedType,
+    type FileRejection,
+    type UploadRejectionCode,
+    type UploadRules
+} from '@/lib/upload-rules';
+import { compressImage, isCompressibleImage, type ImageCompressionOptions } from '@/lib/image-compression';
+import { readImageMetadata, sanitizeImage, type ImageMetadata } from '@/lib/image-metadata';
+import { hashFile } from '@/lib/file-hash';
+import { createVideoThumbnail } from '@/lib/video-thumbnail';
+import { applyNamingRule, withFileName, type FileNamingRule } from '@/lib/file-naming';
+import { translateRejection } from '@/lib/i18n';
+import { useCamera, RECORDER_MIME_TYPES, type UseCameraOptions } from '@/hooks/use-camera';
+import { useDropzone, type PasteScope } from '@/hooks/use-dropzone';
+import { useFilePersistence, type RestoredFile } from '@/hooks/use-file-persistence';
+import { useUploadQueue, type OfflineQueueOptions, type UploadRunResult } from '@/hooks/use-upload-queue';
+import { useTranslator } from '@/hooks/use-translator';
+
+// Type definitions
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed';
+export type DuplicateHandling = 'skip' | 'replace' | 'allow';
+
+export interface FileObject {
+    file: File;
+    id: string;
+    preview: string;
+    name: string;
+    size: number;
+    type: string;
+    status: UploadStatus;
+    bytesSent: number;    // bytes acknowledged by the transport so far
+    error?: string;       // last upload error, set when status is 'failed'
+    response?: unknown;   // parsed server response, set when status is 'done'
+    manifest?: UploadManifestEntry; // stored file details when the server returns an upload manifest
+    originalSize?: number; // size before compression, set when the file was compressed
+    metadata?: ImageMetadata; // EXIF details read from JPEGs at intake
+    hash?: string;        // hex SHA-256 of the bytes that will be uploaded
+    isCover?: boolean;    // primary photo chosen by the user, at most one per list
+    thumbnail?: string;   // object URL of a poster frame, set on videos once it has been drawn
+}
+
+// Custom check, resolves to an error message to refuse the file
+export type FileValidator = (file: File) => string | null | undefined | Promise<string | null | undefined>;
+
+// A file after intake processing, before size validation
+interface PreparedFile {
+    file: File;
+    originalSize?: number;
+    metadata?: ImageMetadata;
+    hash?: string;
+    metadataKept?: boolean; // stripMetadata is on but the metadata could not be removed
+}
+
+export interface UseCameraUploaderOptions extends UseCameraOptions {
+    files?: FileObject[]; // controlled list, update it from onFilesChange
+    defaultFiles?: FileObject[]; // initial list when uncontrolled
+    onFilesChange?: (files: FileObject[]) => void;
+    onUpload?: (files: FileObject[]) => Promise<void> | void;
+    transport?: UploadTransport; // uploads each file independently when set
+    uploadConcurrency?: number;
+    onFileUploaded?: (file: FileObject) => void;
+    maxFileSize?: number; // in bytes
+    minFileSize?: number; // in bytes
+    validator?: FileValidator; // runs after type/size checks, e.g. for minimum image dimensions
+    onFilesRejected?: (rejections: FileRejection[]) => void;
+    duplicates?: DuplicateHandling; // what to do with files whose contents are already in the list
+    acceptedTypes?: string[];
+    maxFiles?: number;
+    imageCompression?: ImageCompressionOptions; // resize/re-encode images before validation and upload
+    stripMetadata?: boolean; // remove EXIF (GPS, device info) from JPEGs before they are added
+    normalizeOrientation?: boolean; // re-encode sideways JPEGs upright
+    name?: string; // field name of the hidden file input submitted with the surrounding form
+    required?: boolean; // block form submission while the list is empty
+    paste?: PasteScope; // accept pasted files on the focused drop zone, the whole document, or not at all
+    persistKey?: string; // keep files that are not uploaded yet in IndexedDB under this key and restore them on mount
+    offlineQueue?: boolean | OfflineQueueOptions; // hold uploads while offline and retry failures with backoff
+    fileNaming?: FileNamingRule; // rename picked, dropped and pasted files as they come in
+}
+
+type FormInputProps = React.InputHTMLAttributes<HTMLInputElement> & React.RefAttributes<HTMLInputElement>;
+
+// Wrap a File for the list, e.g. to build `files` / `defaultFiles` in the host app
+export const createFileObject = (file: File, extra: Partial<FileObject> = {}): FileObject => ({
+    file,
+    id: Math.random().toString(36).substr(2, 9),
+    preview: URL.createObjectURL(file),
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    status: 'queued',
+    bytesSent: 0,
+    ...extra
+});
+
+// Release the object URLs owned by a file
+const revokeFileUrls = (fileObj: FileObject): void => {
+    URL.revokeObjectURL(fileObj.preview);
+    if (fileObj.thumbnail) {
+        URL.revokeObjectURL(fileObj.thumbnail);
+    }
+};
+
+// Cover chosen by the user, falling back to the first file
+export const getCoverFile = (files: FileObject[]): FileObject | undefined =>
+    files.find(f => f.isCover) ?? files[0];
+
+// File list, validation, camera and upload state for building a custom uploader UI
+export const useCameraUploader = ({
+    files: filesProp,
+    defaultFiles,
+    onFilesChange,
+    onUpload,
+    maxFileSize = 10 * 1024 * 1024, // 10MB default
+    minFileSize = 0,
+    validator,
+    onFilesRejected,
+    duplicates = 'skip',
+    acceptedTypes = ['image/*', 'video/*'],
+    maxFiles = 10,
+    imageCompression,
+    stripMetadata = false,
+    normalizeOrientation = true,
+    transport,
+    uploadConcurrency = 3,
+    onFileUploaded,
+    name,
+    required = false,
+    paste = 'zone',
+    persistKey,
+    offlineQueue = false,
+    fileNaming,
+    locale,
+    messages,
+    ...cameraOptions
+}: UseCameraUploaderOptions = {}) => {
+    const translator = useTranslator({ locale, messages });
+    const { t } = translator;
+    const [internalFiles, setInternalFiles] = useState<FileObject[]>(defaultFiles ?? []);
+    const [isUploading, setIsUploading] = useState<boolean>(false);
+    const [processingCount, setProcessingCount] = useState<number>(0);
+    const [rejections, setRejections] = useState<FileRejection[]>([]);
+    const [isInvalid, setIsInvalid] = useState<boolean>(false);
+    const [announcement, setAnnouncement] = useState<string>('');
+
+    const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+    const permanentFailuresRef = useRef<Set<string>>(new Set()); // ids refused by the server, not retried automatically
+    const formInputRef = useRef<HTMLInputElement>(null);
+
+    // Controlled when the host passes `files`
+    const isControlled = filesProp !== undefined;
+    const files = isControlled ? filesProp : internalFiles;
+
+    // Latest list, so async handlers and back-to-back updates never work on a stale copy
+    const filesRef = useRef<FileObject[]>(files);
+    filesRef.current = files;
+
+    const setFiles = useCallback((update: (prev: FileObject[]) => FileObject[]): void => {
+        const updatedFiles = update(filesRef.current);
+        filesRef.current = updatedFiles;
+        if (!isControlled) {
+            setInternalFiles(updatedFiles);
+        }
+    }, [isControlled]);
+
+    const camera = useCamera({ ...cameraOptions, locale, messages });
+
+    // Text for a polite live region, so screen readers hear what changed in the list
+    const announce = useCallback((message: string): void => {
+        // Repeating the same text would not be read again, a trailing no-break space makes it a change
+        setAnnouncement(prev => (prev === message ? `${message}\u00a0` : message));
+    }, []);
+
+    // Show and report files that were refused
+    const reportRejections = useCallback((rejected: FileRejection[]): void => {
+        setRejections(rejected);
+        if (rejected.length === 0) return;
+
+        onFilesRejected?.(rejected);
+        toast.error(t('rejectedSummary', { count: rejected.length }));
+    }, [onFilesRejected, t]);
+
+    const dismissRejections = useCallback((): void => {
+        setRejections([]);
+    }, []);
+
+    // Read metadata, fix orientation/strip EXIF, then compress
+    const prepareFile = useCallback(async (file: File): Promise<PreparedFile> => {
+        let prepared = file;
+        let metadata: ImageMetadata | undefined;
+
+        try {
+            metadata = (await readImageMetadata(file)) ?? undefined;
+            prepared = await sanitizeImage(file, metadata ?? null, { stripMetadata, normalizeOrientation });
+        } catch (error) {
+            console.warn(`Unable to process metadata of ${file.name}`, error);
+            // Refused rather than uploaded with the location data the host asked to remove
+            if (stripMetadata && (file.type.startsWith('image/') || !file.type)) {
+                return { file, metadata, metadataKept: true };
+            }
+        }
+
+        // Compress images before the size check so large phone photos can still fit
+        let originalSize: number | undefined;
+        if (imageCompression && isCompressibleImage(prepared)) {
+            try {
+                const compressed = await compressImage(prepared, imageCompression);
+                if (compressed !== prepared) {
+                    prepared = compressed;
+                    originalSize = file.size;
+                }
+            } catch (error) {
+                console.warn(`Unable to compress ${file.name}, keeping the original`, error);
+            }
+        }
+
+        // Hash the final bytes so the server can verify what it received
+        let hash: string | undefined;
+        try {
+            hash = (await hashFile(prepared)) ?? undefined;
+        } catch (error) {
+            console.warn(`Unable to hash ${file.name}`, error);
+        }
+
+        return { file: prepared, originalSize, metadata, hash };
+    }, [imageCompression, stripMetadata, normalizeOrientation]);
+
+    // Validate, process and append files
+    const addFiles = useCallback(async (newFiles: FileList | File[]): Promise<void> => {
+        const fileArray = Array.from(newFiles);
+        const rules: UploadRules = { maxFileSize, minFileSize, acceptedTypes, maxFiles };
+        const rejected: FileRejection[] = [];
+        const reject = (file: File, code: UploadRejectionCode, message?: string): void => {
+            rejected.push({
+                file,
+                code,
+                message: message ?? translateRejection(translator, code, file, rules)
+            });
+        };
+
+        // Check type and size first so refused files are never read. Images that will be
+        // compressed can still shrink below the limit, their size is checked after processing.
+        const checkedFiles = fileArray.filter(file => {
+            if (!isAcceptedFile(file, acceptedTypes)) {
+                reject(file, 'file-invalid-type');
+                return false;
+            }
+            const code = imageCompression && isCompressibleImage(file) ? null : checkFile(file, rules);
+            if (code) {
+                reject(file, code);
+                return false;
+            }
+            return true;
+        });
+
+        // Files past the free slots are refused before processing too (replacements can free up to every slot)
+        const slotLimit = duplicates === 'replace' ? maxFiles : Math.max(0, maxFiles - filesRef.current.length);
+        const typedFiles = checkedFiles.slice(0, slotLimit);
+        checkedFiles.slice(slotLimit).forEach(file => reject(file, 'too-many-files'));
+
+        setProcessingCount(prev => prev + typedFiles.length);
+        const processedFiles = await Promise.all(typedFiles.map(async file => {
+            try {
+                return await prepareFile(file);
+            } finally {
+                setProcessingCount(prev => prev - 1);
+            }
+        }));
+
+        // Size limits apply to the processed file
+        const sizedFiles = processedFiles.filter(({ file, metadataKept }) => {
+            if (metadataKept) {
+                reject(file, 'file-invalid', t('rejectMetadata', { name: file.name }));
+                return false;
+            }
+            const code = checkFile(file, rules);
+            if (code) {
+                reject(file, code);
+                return false;
+            }
+            return true;
+        });
+
+        // Custom checks from the host app
+        let validFiles = sizedFiles;
+        if (validator) {
+            const results = await Promise.all(sizedFiles.map(async prepared => {
+                try {
+                    const message = await validator(prepared.file);
+                    if (message) {
+                        reject(prepared.file, 'file-invalid', message);
+                        return null;
+                    }
+                    return prepared;
+                } catch (error) {
+                    console.error(`Validator failed for ${prepared.file.name}:`, error);
+                    reject(prepared.file, 'file-invalid', t('rejectValidatorFailed', { name: prepared.file.name }));
+                    return null;
+                }
+            }));
+            validFiles = results.filter((prepared): prepared is PreparedFile => prepared !== null);
+        }
+
+        // Duplicate detection against the current list and within the batch
+        const currentFiles = filesRef.current;
+        const existingByHash = new Map(currentFiles.filter(f => f.hash).map(f => [f.hash as string, f.id]));
+        const batchHashes = new Set<string>();
+        const replacedIds = new Set<string>();
+        const uniqueFiles = duplicates === 'allow' ? validFiles : validFiles.filter(prepared => {
+            if (!prepared.hash) return true;
+
+            if (batchHashes.has(prepared.hash)) {
+                reject(prepared.file, 'duplicate');
+                return false;
+            }
+            batchHashes.add(prepared.hash);
+
+            const existingId = existingByHash.get(prepared.hash);
+            if (existingId === undefined) return true;
+            if (duplicates === 'replace') {
+                replacedIds.add(existingId);
+                return true;
+            }
+            reject(prepared.file, 'duplicate');
+            return false;
+        });
+
+        // Check max files limit
+        const remainingSlots = Math.max(0, maxFiles - (currentFiles.length - replacedIds.size));
+        const filesToAdd = uniqueFiles.slice(0, remainingSlots);
+        uniqueFiles.slice(remainingSlots).forEach(({ file }) => reject(file, 'too-many-files'));
+
+        reportRejections(rejected);
+        const summary = [
+            ...(filesToAdd.length > 0 ? [t('announceFilesAdded', { count: filesToAdd.length })] : []),
+            ...(rejected.length > 0 ? [t('rejectedSummary', { count: rejected.length }), ...rejected.map(r => r.message)] : [])
+        ];
+        if (summary.length > 0) {
+            announce(summary.join('. '));
+        }
+
+        // Replaced files are dropped, the new copies are appended below
+        currentFiles.forEach(f => {
+            if (replacedIds.has(f.id)) {
+                abortControllersRef.current.get(f.id)?.abort();
+                revokeFileUrls(f);
+            }
+        });
+
+        const fileObjects: FileObject[] = filesToAdd.map(({ file, originalSize, metadata, hash }) => (
+            createFileObject(file, { originalSize, metadata, hash })
+        ));
+
+        setFiles(prev => {
+            const updatedFiles = [...prev.filter(f => !replacedIds.has(f.id)), ...fileObjects];
+            onFilesChange?.(updatedFiles);
+            return updatedFiles;
+        });
+    }, [
+        setFiles,
+        duplicates,
+        prepareFile,
+        imageCompression,
+        validator,
+        reportRejections,
+        maxFileSize,
+        minFileSize,
+        acceptedTypes,
+        maxFiles,
+        onFilesChange,
+        translator,
+        t,
+        announce
+    ]);
+
+    // Files from the picker, drops and pastes get the host's naming rule, camera captures are named by their template
+    const namingSequenceRef = useRef(0);
+    const { namePrefix } = camera;
+    const addPickedFiles = useCallback((picked: File[]): Promise<void> => {
+        if (!fileNaming) return addFiles(picked);
+        return addFiles(picked.map(file => applyNamingRule(file, fileNaming, ++namingSequenceRef.current, namePrefix)));
+    }, [fileNaming, namePrefix, addFiles]);
+
+    const dropzone = useDropzone({ onDrop: addPickedFiles, accept: acceptedTypes, paste });
+
+    // Update a single file in place
+    const updateFile = useCallback((id: string, patch: Partial<FileObject>, notify = false): void => {
+        setFiles(prev => {
+            const updatedFiles = prev.map(f => (f.id === id ? { ...f, ...patch } : f));
+            // A controlled parent has to see every change, progress included
+            if (notify || isControlled) {
+                onFilesChange?.(updatedFiles);
+            }
+            return updatedFiles;
+        });
+    }, [setFiles, isControlled, onFilesChange]);
+
+    // Swap in an edited file, keeping the id and list position
+    // Edited files go through the same type and size rules as added ones, the original stays when they fail
+    const replaceFile = useCallback(async (id: string, file: File): Promise<void> => {
+        const rules: UploadRules = { maxFileSize, minFileSize, acceptedTypes, maxFiles };
+        const code = checkFile(file, rules);
+        if (code) {
+            toast.error(translateRejection(translator, code, file, rules));
+            return;
+        }
+
+        let hash: string | undefined;
+        try {
+            hash = (await hashFile(file)) ?? undefined;
+        } catch (error) {
+            console.warn(`Unable to hash ${file.name}`, error);
+        }
+
+        const previous = filesRef.current.find(f => f.id === id);
+        if (!previous) return;
+        revokeFileUrls(previous);
+        const preview = URL.createObjectURL(file);
+
+        setFiles(prev => {
+            const updatedFiles = prev.map(f => {
+                if (f.id !== id) return f;
+                return {
+                    ...f,
+                    file,
+                    preview,
+                    name: file.name,
+                    size: file.size,
+                    type: file.type,
+                    status: 'queued' as const,
+                    bytesSent: 0,
+                    error: undefined,
+                    response: undefined,
+                    manifest: undefined,
+                    originalSize: undefined,
+                    thumbnail: undefined,
+                    hash
+                };
+            });
+            onFilesChange?.(updatedFiles);
+            return updatedFiles;
+        });
+    }, [setFiles, maxFileSize, minFileSize, acceptedTypes, maxFiles, onFilesChange, translator]);
+
+    // Put files saved before a reload back in front of anything added since
+    const restoreFiles = useCallback((restored: RestoredFile[]): void => {
+        setFiles(prev => {
+            const existingIds = new Set(prev.map(f => f.id));
+            const fileObjects = restored
+                .filter(({ id }) => !existingIds.has(id))
+                .map(({ file, ...details }) => createFileObject(file, details));
+            if (fileObjects.length === 0) return prev;
+
+            const updatedFiles = [...fileObjects, ...prev];
+            onFilesChange?.(updatedFiles);
+            return updatedFiles;
+        });
+    }, [setFiles, onFilesChange]);
+
+    const { isRestoring } = useFilePersistence({ persistKey, files, onRestore: restoreFiles });
+
+    // Draw poster frames for videos in the background, once per file
+    const thumbnailJobsRef = useRef<Set<string>>(new Set());
+    React.useEffect(() => {
+        files.forEach(fileObj => {
+            if (!fileObj.type.startsWith('video/') || fileObj.thumbnail || thumbnailJobsRef.current.has(fileObj.id)) return;
+
+            thumbnailJobsRef.current.add(fileObj.id);
+            createVideoThumbnail(fileObj.file)
+                .then(poster => {
+                    // The file may have been removed or replaced while the frame was drawn
+                    const current = filesRef.current.find(f => f.id === fileObj.id);
+                    if (!poster || current?.file !== fileObj.file) return;
+                    updateFile(fileObj.id, { thumbnail: URL.createObjectURL(poster) });
+                })
+                .catch(error => console.warn(`Unable to create a thumbnail for ${fileObj.name}`, error));
+        });
+    }, [files, updateFile]);
+
+    // Move a file to a new position, the array order is the order passed to onFilesChange and onUpload
+    const moveFile = useCallback((id: string, toIndex: number): void => {
+        setFiles(prev => {
+            const fromIndex = prev.findIndex(f => f.id === id);
+            if (fromIndex === -1 || fromIndex === toIndex) return prev;
+
+            const updatedFiles = [...prev];
+            const [moved] = updatedFiles.splice(fromIndex, 1);
+            updatedFiles.splice(Math.min(Math.max(toIndex, 0), updatedFiles.length), 0, moved);
+            onFilesChange?.(updatedFiles);
+            return updatedFiles;
+        });
+    }, [setFiles, onFilesChange]);
+
+    // Mark one file as the cover, clearing the flag on the others
+    const setCover = useCallback((id: string): void => {
+        setFiles(prev => {
+            const updatedFiles = prev.map(f => {
+                if (f.id === id) return f.isCover ? f : { ...f, isCover: true };
+                return f.isCover ? { ...f, isCover: false } : f;
+            });
+            onFilesChange?.(updatedFiles);
+            return updatedFiles;
+        });
+    }, [setFiles, onFilesChange]);
+
+    // Rename a file that has not been uploaded yet, the extension is kept
+    const renameFile = useCallback((id: string, newName: string): void => {
+        const fileObj = filesRef.current.find(f => f.id === id);
+        if (!fileObj || fileObj.status === 'uploading' || fileObj.status === 'done') return;
+
+        const file = withFileName(fileObj.file, newName);
+        if (file === fileObj.file) return;
+        updateFile(id, { file, name: file.name }, true);
+    }, [updateFile]);
+
+    // Remove file
+    const removeFile = useCallback((id: string): void => {
+        abortControllersRef.current.get(id)?.abort();
+        const removed = filesRef.current.find(f => f.id === id);
+        if (removed) {
+            announce(t('announceFileRemoved', { name: removed.name }));
+        }
+        setFiles(prev => {
+            const fileToRemove = prev.find(f => f.id === id);
+            if (fileToRemove) {
+                revokeFileUrls(fileToRemove);
+            }
+
+            const updatedFiles = prev.filter(f => f.id !== id);
+            onFilesChange?.(updatedFiles);
+            return updatedFiles;
+        });
+    }, [setFiles, onFilesChange, announce, t]);
+
+    // Remove every file and cancel their uploads
+    const clear = useCallback((): void => {
+        abortControllersRef.current.forEach(controller => controller.abort());
+        if (filesRef.current.length > 0) {
+            announce(t('announceFilesCleared'));
+        }
+        setFiles(prev => {
+            prev.forEach(revokeFileUrls);
+            onFilesChange?.([]);
+            return [];
+        });
+        setRejections([]);
+    }, [setFiles, onFilesChange, announce, t]);
+
+    // Upload a single file through the transport
+    const uploadFile = useCallback(async (fileObj: FileObject): Promise<boolean> => {
+        if (!transport) return false;
+
+        const controller = new AbortController();
+        abortControllersRef.current.set(fileObj.id, controller);
+        updateFile(fileObj.id, { status: 'uploading', bytesSent: 0, error: undefined }, true);
+
+        try {
+            const response = await transport.upload(fileObj.file, {
+                signal: controller.signal,
+                onProgress: ({ loaded, total }) => {
+                    // The request body includes multipart overhead, scale it back to the file size
+                    const bytesSent = total > 0 ? Math.round((loaded / total) * fileObj.size) : 0;
+                    updateFile(fileObj.id, { bytesSent: Math.min(bytesSent, fileObj.size) });
+                }
+            });
+
+            const manifest = isUploadManifest(response) ? response.files[0] : undefined;
+
+            // The server hashes what it stored, compare it with what we sent
+            if (manifest?.checksum && fileObj.hash && manifest.checksum !== fileObj.hash) {
+                throw new Error(t('checksumMismatch'));
+            }
+
+            const uploaded: FileObject = {
+                ...fileObj,
+                status: 'done',
+                bytesSent: fileObj.size,
+                error: undefined,
+                response,
+                manifest
+            };
+            updateFile(fileObj.id, uploaded, true);
+            onFileUploaded?.(uploaded);
+            return true;
+        } catch (error) {
+            const cancelled = error instanceof Error && error.name === 'AbortError';
+            if (!cancelled) {
+                console.error(`Upload error for ${fileObj.name}:`, error);
+            }
+            let message = error instanceof Error ? error.message : t('uploadFailed');
+            if (cancelled) {
+                message = t('uploadCancelled');
+            } else if (error instanceof UploadHttpError) {
+                message = getUploadErrorMessage(error.body) ?? message;
+            }
+
+            // Network errors, 5xx, timeouts and rate limits may pass on a later attempt
+            const permanent = cancelled || (error instanceof UploadHttpError
+                && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429);
+            if (permanent) {
+                permanentFailuresRef.current.add(fileObj.id);
+            } else {
+                permanentFailuresRef.current.delete(fileObj.id);
+            }
+            updateFile(fileObj.id, { status: 'failed', error: message }, true);
+            return false;
+        } finally {
+            abortControllersRef.current.delete(fileObj.id);
+        }
+    }, [transport, updateFile, onFileUploaded, t]);
+
+    // Cancel an in-flight upload
+    const cancelUpload = useCallback((id: string): void => {
+        abortControllersRef.current.get(id)?.abort();
+    }, []);
+
+    // Send files and report how the pass went; toasts are left to the caller
+    const sendFiles = useCallback(async (pendingFiles: FileObject[]): Promise<UploadRunResult> => {
+        setIsUploading(true);
+        try {
+            if (transport) {
+                const queue = [...pendingFiles];
+                let failedCount = 0;
+
+                const worker = async (): Promise<void> => {
+                    let next = queue.shift();
+                    while (next) {
+                        if (!(await uploadFile(next))) failedCount++;
+                        next = queue.shift();
+                    }
+                };
+
+                const workerCount = Math.max(1, Math.min(uploadConcurrency, pendingFiles.length));
+                await Promise.all(Array.from({ length: workerCount }, worker));
+
+                const failedFiles = filesRef.current.filter(f => f.status === 'failed' && pendingFiles.some(p => p.id === f.id));
+                return {
+                    failed: failedCount,
+                    retryable: failedFiles.filter(f => !permanentFailuresRef.current.has(f.id)).length,
+                    error: failedFiles[0]?.error ?? null
+                };
+            }
+
+            if (onUpload) {
+                await onUpload(pendingFiles);
+                pendingFiles.forEach(f => updateFile(f.id, { status: 'done', bytesSent: f.size }, true));
+            } else {
+                // Default behavior - just log the files
+                console.log('Files to upload:', pendingFiles.map(f => f.file));
+            }
+            return { failed: 0, retryable: 0, error: null };
+        } catch (error) {
+            console.error('Upload error:', error);
+            const message = error instanceof Error ? error.message : t('uploadFailed');
+            return { failed: pendingFiles.length, retryable: pendingFiles.length, error: message };
+        } finally {
+            setIsUploading(false);
+        }
+    }, [onUpload, transport, uploadConcurrency, uploadFile, updateFile, t]);
+
+    // Files that already succeeded are never re-sent
+    const getPendingFiles = useCallback((): FileObject[] => (
+        filesRef.current.filter(f => f.status !== 'done' && f.status !== 'uploading')
+    ), []);
+
+    // Queued passes skip files the server refused outright, retrying those cannot help
+    const runQueuedUpload = useCallback(async (): Promise<UploadRunResult> => {
+        const pendingFiles = getPendingFiles().filter(f => !permanentFailuresRef.current.has(f.id));
+        if (pendingFiles.length === 0) return { failed: 0, retryable: 0, error: null };
+        return sendFiles(pendingFiles);
+    }, [getPendingFiles, sendFiles]);
+
+    const handleQueueSettled = useCallback((result: UploadRunResult): void => {
+        if (result.failed > 0) {
+            const message = t('queueFailed', { count: result.failed });
+            toast.error(message);
+            announce(message);
+        } else {
+            toast.success(t('queueDone'));
+            announce(t('queueDone'));
+        }
+    }, [t, announce]);
+
+    const queueOptions = typeof offlineQueue === 'object' ? offlineQueue : {};
+    const uploadQueue = useUploadQueue({
+        ...queueOptions,
+        enabled: !!offlineQueue,
+        persistKey,
+        isRestoring,
+        run: runQueuedUpload,
+        onSettled: handleQueueSettled
+    });
+    const { start: startQueue } = uploadQueue;
+
+    // Upload every file that has not been sent yet
+    const upload = useCallback(async (): Promise<void> => {
+        const pendingFiles = getPendingFiles();
+        if (pendingFiles.length === 0) return;
+
+        // An explicit upload retries everything, including files refused before
+        pendingFiles.forEach(f => permanentFailuresRef.current.delete(f.id));
+
+        if (offlineQueue) {
+            if (!navigator.onLine) {
+                toast.info(t('queueStarted'));
+            }
+            startQueue();
+            return;
+        }
+
+        const result = await sendFiles(pendingFiles);
+        const failed = result.failed > 0;
+        let message: string;
+        if (transport) {
+            message = failed
+                ? t('uploadPartiallyFailed', { failed: result.failed, total: pendingFiles.length })
+                : t('uploadSucceeded', { count: pendingFiles.length });
+        } else if (failed) {
+            message = t('uploadError');
+        } else {
+            message = onUpload ? t('uploadSucceeded', { count: pendingFiles.length }) : t('readyToUpload', { count: pendingFiles.length });
+        }
+
+        // Hosts with their own onUpload show their own success message, the live region still reports it
+        if (failed) {
+            toast.error(message);
+        } else if (transport || !onUpload) {
+            toast.success(message);
+        }
+        announce(message);
+    }, [getPendingFiles, offlineQueue, startQueue, sendFiles, transport, onUpload, t, announce]);
+
+    // Capture a still from the open camera, close it and add the photo
+    const { capturePhoto: captureFrame, close: closeCamera, recordedClip } = camera;
+    const capturePhoto = useCallback(async (): Promise<void> => {
+        const file = await captureFrame();
+        if (!file) return;
+        closeCamera();
+        await addFiles([file]);
+    }, [captureFrame, closeCamera, addFiles]);
+
+    // Add the recorded clip and close the camera
+    const acceptClip = useCallback(async (): Promise<void> => {
+        if (!recordedClip) return;
+        closeCamera();
+        await addFiles([recordedClip.file]);
+    }, [recordedClip, closeCamera, addFiles]);
+
+    // Mirror the list into the hidden input so native form posts and constraint validation see it
+    React.useEffect(() => {
+        const input = formInputRef.current;
+        if (!input) return;
+
+        try {
+            const dataTransfer = new DataTransfer();
+            files.forEach(f => dataTransfer.items.add(f.file));
+            input.files = dataTransfer.files;
+        } catch (error) {
+            // Older Safari has no DataTransfer constructor, the form then has to read `files` itself
+            console.warn('Unable to sync files into the form input', error);
+        }
+
+        const message = required && files.length === 0 ? t('requiredError') : '';
+        input.setCustomValidity(message);
+        if (!message) {
+            setIsInvalid(false);
+        }
+    }, [files, required, t]);
+
+    // A native form reset empties the list too
+    React.useEffect(() => {
+        const form = formInputRef.current?.form;
+        if (!form) return;
+
+        const handleReset = (): void => clear();
+        form.addEventListener('reset', handleReset);
+        return () => form.removeEventListener('reset', handleReset);
+    }, [clear, name, required]);
+
+    // Props for the hidden input that takes part in the surrounding <form>
+    const getFormInputProps = useCallback((props: FormInputProps = {}): FormInputProps => ({
+        ...props,
+        ref: formInputRef,
+        type: 'file',
+        name,
+        required,
+        multiple: true,
+        tabIndex: -1,
+        'aria-hidden': true,
+        onInvalid: (e) => {
+            props.onInvalid?.(e);
+            setIsInvalid(true);
+        }
+    }), [name, required]);
+
+    // Release previews and in-flight uploads on unmount
+    React.useEffect(() => {
+        const abortControllers = abortControllersRef.current;
+        return () => {
+            filesRef.current.forEach(revokeFileUrls);
+            abortControllers.forEach(controller => controller.abort());
+        };
+    }, []);
+
+    const canRecordVideo = RECORDER_MIME_TYPES.some(type => isAcceptedType(type.split(';')[0], acceptedTypes));
+    const pendingCount = files.filter(f => f.status !== 'done').length;
+
+    return {
+        files,
+        rejections,
+        processingCount,
+        isUploading,
+        isRestoring,
+        queueStatus: uploadQueue.status,
+        retryQueue: uploadQueue.retryNow,
+        pendingCount,
+        isFull: files.length >= maxFiles,
+        remainingSlots: Math.max(0, maxFiles - files.length),
+        isInvalid,
+        isFormField: name !== undefined || required,
+        canRecordVideo,
+        addFiles,
+        updateFile,
+        replaceFile,
+        renameFile,
+        moveFile,
+        setCover,
+        removeFile,
+        clear,
+        dismissRejections,
+        upload,
+        uploadFile,
+        cancelUpload,
+        capturePhoto,
+        acceptClip,
+        isDragOver: dropzone.isDragOver,
+        openFilePicker: dropzone.open,
+        openFolderPicker: dropzone.openDirectory,
+        getRootProps: dropzone.getRootProps,
+        getInputProps: dropzone.getInputProps,
+        getDirectoryInputProps: dropzone.getDirectoryInputProps,
+        getFormInputProps,
+        announcement,
+        translator,
+        camera
+    };
+};
+
+export type CameraUploaderState = ReturnType<typeof useCameraUploader>;
@@ -0,0 +1,468 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+    buildVideoConstraints,
+    listVideoDevices,
+    readLastDeviceId,
+    saveLastDeviceId,
+    type CameraSelection,
+    type FacingMode,
+    type ResolutionPreset
+} from '@/lib/camera';
+import { DEFAULT_CAPTURE_TEMPLATE, formatFileName, getExtensionForType } from '@/lib/file-naming';
+import type { I18nOptions } from '@/lib/i18n';
+import { useTranslator } from '@/hooks/use-translator';
+
+export interface RecordedClip {
+    file: File;
+    url: string; // object URL used by the preview player
+}
+
+export type CaptureMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface CaptureOptions {
+    mimeType?: CaptureMimeType; // default image/jpeg, WebP falls back to PNG where the browser cannot encode it
+    quality?: number;           // 0-1, for JPEG and WebP (default 0.9)
+    maxWidth?: number;          // frames larger than this are scaled down
+    maxHeight?: number;
+    fileName?: string;          // template with {date}, {time}, {timestamp}, {seq}, {device} and {prefix}, no extension
+    prefix?: string;            // starting value of {prefix}, users can change it in the camera
+}
+
+export interface UseCameraOptions extends I18nOptions {
+    defaultFacingMode?: FacingMode;
+    defaultResolution?: ResolutionPreset;
+    videoConstraints?: MediaTrackConstraints; // merged over the constraints built from the selection
+    rememberDevice?: boolean; // reopen the last used camera next time
+    recordAudio?: boolean; // initial state of the microphone toggle
+    maxRecordingDuration?: number; // in seconds
+    capture?: CaptureOptions; // format, size and name of captured photos
+}
+
+// Containers MediaRecorder is asked for, in order of preference
+export const RECORDER_MIME_TYPES = [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+    'video/mp4'
+];
+
+const getRecorderMimeType = (): string => {
+    return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+};
+
+const getTimestamp = (): string => new Date().toISOString().replace(/[:.]/g, '-');
+
+// Camera stream, device switching, still capture and video recording without any markup
+export const useCamera = ({
+    defaultFacingMode = 'environment',
+    defaultResolution = 'hd',
+    videoConstraints,
+    rememberDevice = true,
+    recordAudio = false,
+    maxRecordingDuration = 60,
+    capture = {},
+    locale,
+    messages
+}: UseCameraOptions = {}) => {
+    const { t } = useTranslator({ locale, messages });
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+    const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+    const [facingMode, setFacingMode] = useState<FacingMode>(defaultFacingMode);
+    const [resolution, setResolution] = useState<ResolutionPreset>(defaultResolution);
+    const [isSwitching, setIsSwitching] = useState<boolean>(false);
+    const [isRecording, setIsRecording] = useState<boolean>(false);
+    const [recordingSeconds, setRecordingSeconds] = useState<number>(0);
+    const [recordedClip, setRecordedClip] = useState<RecordedClip | null>(null);
+    const [withAudio, setWithAudio] = useState<boolean>(recordAudio);
+    const [namePrefix, setNamePrefix] = useState<string>(capture.prefix ?? '');
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+    const recordedChunksRef = useRef<Blob[]>([]);
+    const audioStreamRef = useRef<MediaStream | null>(null);
+    const sequenceRef = useRef(0); // {seq} of the last captured photo
+
+    // Track the stream in a ref too so unmount cleanup sees the latest one
+    const updateStream = useCallback((mediaStream: MediaStream | null): void => {
+        streamRef.current = mediaStream;
+        setStream(mediaStream);
+    }, []);
+
+    const refreshVideoDevices = useCallback(async (): Promise<void> => {
+        try {
+            setVideoDevices(await listVideoDevices());
+        } catch (error) {
+            console.error('Error listing cameras:', error);
+        }
+    }, []);
+
+    // Show a stream in the preview and record which camera it came from
+    const attachStream = useCallback((mediaStream: MediaStream): void => {
+        updateStream(mediaStream);
+
+        const settings = mediaStream.getVideoTracks()[0]?.getSettings();
+        if (settings?.deviceId) {
+            setActiveDeviceId(settings.deviceId);
+            if (rememberDevice) {
+                saveLastDeviceId(settings.deviceId);
+            }
+        }
+        if (settings?.facingMode === 'user' || settings?.facingMode === 'environment') {
+            setFacingMode(settings.facingMode);
+        }
+
+        // Wait a bit for the video element to be ready
+        setTimeout(() => {
+            if (videoRef.current) {
+                videoRef.current.srcObject = mediaStream;
+                videoRef.current.play().catch(console.error);
+            }
+        }, 100);
+
+        refreshVideoDevices();
+    }, [updateStream, rememberDevice, refreshVideoDevices]);
+
+    const openStream = useCallback(async (selection: CameraSelection): Promise<void> => {
+        const mediaStream = await navigator.mediaDevices.getUserMedia({
+            video: buildVideoConstraints(selection, videoConstraints),
+            audio: false
+        });
+        attachStream(mediaStream);
+    }, [videoConstraints, attachStream]);
+
+    const open = useCallback(async (): Promise<void> => {
+        try {
+            // Check if getUserMedia is supported
+            if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+                toast.error(t('cameraUnsupported'));
+                return;
+            }
+
+            setIsOpen(true); // Show the preview first
+
+            const lastDeviceId = rememberDevice ? readLastDeviceId() : null;
+            try {
+                await openStream({ deviceId: lastDeviceId ?? undefined, facingMode, resolution });
+            } catch (error) {
+                // The remembered camera may have been unplugged, fall back to the facing mode
+                const deviceMissing = error instanceof Error
+                    && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+                if (!lastDeviceId || !deviceMissing) throw error;
+                await openStream({ facingMode, resolution });
+            }
+
+        } catch (error) {
+            console.error('Error accessing camera:', error);
+            setIsOpen(false); // Hide the preview if the camera fails
+
+            // Provide more specific error messages
+            if (error instanceof Error) {
+                if (error.name === 'NotAllowedError') {
+                    toast.error(t('cameraDenied'));
+                } else if (error.name === 'NotFoundError') {
+                    toast.error(t('cameraNotFound'));
+                } else if (error.name === 'NotSupportedError') {
+                    toast.error(t('cameraNotSupportedOnDevice'));
+                } else if (error.name === 'OverconstrainedError') {
+                    // Try again with less restrictive constraints
+                    try {
+                        const fallbackStream = await navigator.mediaDevices.getUserMedia({
+                            video: true,
+                            audio: false
+                        });
+                        setIsOpen(true);
+                        attachStream(fallbackStream);
+                    } catch (_fallbackError) {
+                        toast.error(t('cameraNoSettings'));
+                    }
+                } else {
+                    toast.error(t('cameraError', { message: error.message }));
+                }
+            } else {
+                toast.error(t('cameraUnavailable'));
+            }
+        }
+    }, [rememberDevice, facingMode, resolution, openStream, attachStream, t]);
+
+    // Reopen the camera with a different device, facing mode or resolution without closing the preview
+    const switchCamera = useCallback(async (next: Partial<CameraSelection>): Promise<void> => {
+        const selection: CameraSelection = {
+            deviceId: activeDeviceId ?? undefined,
+            facingMode,
+            resolution,
+            ...next
+        };
+
+        setIsSwitching(true);
+        // Mobile browsers cannot open two cameras at once, release the current one first
+        stream?.getTracks().forEach(track => track.stop());
+        updateStream(null);
+
+        try {
+            await openStream(selection);
+        } catch (error) {
+            console.error('Error switching camera:', error);
+            toast.error(t('cameraSwitchFailed'));
+            try {
+                await openStream({ facingMode, resolution });
+            } catch (_fallbackError) {
+                toast.error(t('cameraNoSettings'));
+                setIsOpen(false);
+            }
+        } finally {
+            setIsSwitching(false);
+        }
+    }, [activeDeviceId, facingMode, resolution, stream, updateStream, openStream, t]);
+
+    const flip = useCallback((): void => {
+        switchCamera({ deviceId: undefined, facingMode: facingMode === 'user' ? 'environment' : 'user' });
+    }, [facingMode, switchCamera]);
+
+    const changeResolution = useCallback((preset: ResolutionPreset): void => {
+        setResolution(preset);
+        switchCamera({ resolution: preset });
+    }, [switchCamera]);
+
+    // Keep the device list current while the camera is open
+    React.useEffect(() => {
+        if (!isOpen || !navigator.mediaDevices?.addEventListener) return;
+
+        navigator.mediaDevices.addEventListener('devicechange', refreshVideoDevices);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refreshVideoDevices);
+    }, [isOpen, refreshVideoDevices]);
+
+    // Release the microphone opened for a recording
+    const releaseAudioStream = useCallback((): void => {
+        audioStreamRef.current?.getTracks().forEach(track => track.stop());
+        audioStreamRef.current = null;
+    }, []);
+
+    const close = useCallback((): void => {
+        // Drop an in-progress recording without producing a clip
+        const recorder = mediaRecorderRef.current;
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.onstop = null;
+            recorder.stop();
+        }
+        mediaRecorderRef.current = null;
+        releaseAudioStream();
+        setIsRecording(false);
+
+        if (recordedClip) {
+            URL.revokeObjectURL(recordedClip.url);
+            setRecordedClip(null);
+        }
+
+        if (stream) {
+            stream.getTracks().forEach(track => track.stop());
+            updateStream(null);
+        }
+        setIsOpen(false);
+    }, [stream, recordedClip, updateStream, releaseAudioStream]);
+
+    // Grab the current frame in the configured format and size, null when the camera is not ready
+    const {
+        mimeType: captureType = 'image/jpeg',
+        quality: captureQuality = 0.9,
+        maxWidth: captureMaxWidth = Infinity,
+        maxHeight: captureMaxHeight = Infinity,
+        fileName: fileNameTemplate = DEFAULT_CAPTURE_TEMPLATE
+    } = capture;
+    const capturePhoto = useCallback((): Promise<File | null> => new Promise(resolve => {
+        const video = videoRef.current;
+        if (!video) {
+            resolve(null);
+            return;
+        }
+
+        // Check if video is playing and has dimensions
+        if (video.videoWidth === 0 || video.videoHeight === 0) {
+            toast.error(t('cameraNotReady'));
+            resolve(null);
+            return;
+        }
+
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        if (!context) {
+            console.error('Unable to get canvas context');
+            toast.error(t('captureUnsupported'));
+            resolve(null);
+            return;
+        }
+
+        // Match the video, scaled down to the size limits
+        const scale = Math.min(1, captureMaxWidth / video.videoWidth, captureMaxHeight / video.videoHeight);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+
+        // Draw the current video frame to canvas
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        // Convert canvas to blob and create file
+        canvas.toBlob((blob) => {
+            if (!blob) {
+                toast.error(t('captureFailed'));
+                resolve(null);
+                return;
+            }
+
+            // Name after the type actually produced, the encoder may have fallen back to PNG
+            sequenceRef.current++;
+            const baseName = formatFileName(fileNameTemplate, {
+                sequence: sequenceRef.current,
+                device: stream?.getVideoTracks()[0]?.label,
+                prefix: namePrefix
+            }) || 'camera-capture';
+            resolve(new File([blob], `${baseName}.${getExtensionForType(blob.type)}`, { type: blob.type }));
+        }, captureType, captureQuality);
+    }), [t, stream, captureType, captureQuality, captureMaxWidth, captureMaxHeight, fileNameTemplate, namePrefix]);
+
+    // Video recording handlers
+    const startRecording = useCallback(async (): Promise<void> => {
+        if (!stream) return;
+
+        if (typeof MediaRecorder === 'undefined') {
+            toast.error(t('recordingUnsupported'));
+            return;
+        }
+
+        const tracks: MediaStreamTrack[] = [...stream.getVideoTracks()];
+
+        if (withAudio) {
+            try {
+                const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+                audioStreamRef.current = audioStream;
+                tracks.push(...audioStream.getAudioTracks());
+            } catch (error) {
+                console.error('Error accessing microphone:', error);
+                toast.error(t('microphoneUnavailable'));
+            }
+        }
+
+        const mimeType = getRecorderMimeType();
+        let recorder: MediaRecorder;
+        try {
+            recorder = new MediaRecorder(new MediaStream(tracks), mimeType ? { mimeType } : undefined);
+        } catch (error) {
+            console.error('Error creating MediaRecorder:', error);
+            releaseAudioStream();
+            toast.error(t('recordingStartFailed'));
+            return;
+        }
+
+        recordedChunksRef.current = [];
+        recorder.ondataavailable = (event: BlobEvent) => {
+            if (event.data.size > 0) {
+                recordedChunksRef.current.push(event.data);
+            }
+        };
+        recorder.onstop = () => {
+            releaseAudioStream();
+            mediaRecorderRef.current = null;
+            setIsRecording(false);
+
+            const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0];
+            const blob = new Blob(recordedChunksRef.current, { type });
+            recordedChunksRef.current = [];
+
+            if (blob.size === 0) {
+                toast.error(t('recordingFailed'));
+                return;
+            }
+
+            const extension = type === 'video/mp4' ? 'mp4' : 'webm';
+            const file = new File([blob], `camera-recording-${getTimestamp()}.${extension}`, { type });
+            setRecordedClip({ file, url: URL.createObjectURL(file) });
+        };
+
+        mediaRecorderRef.current = recorder;
+        recorder.start(1000); // Emit data every second so a crash loses at most one second
+        setRecordingSeconds(0);
+        setIsRecording(true);
+    }, [stream, withAudio, releaseAudioStream, t]);
+
+    const stopRecording = useCallback((): void => {
+        const recorder = mediaRecorderRef.current;
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.stop();
+        }
+    }, []);
+
+    const discardClip = useCallback((): void => {
+        if (recordedClip) {
+            URL.revokeObjectURL(recordedClip.url);
+        }
+        setRecordedClip(null);
+        setRecordingSeconds(0);
+    }, [recordedClip]);
+
+    // Elapsed timer and max-duration limit while recording
+    React.useEffect(() => {
+        if (!isRecording) return;
+
+        const startedAt = Date.now();
+        const timer = window.setInterval(() => {
+            const seconds = Math.floor((Date.now() - startedAt) / 1000);
+            setRecordingSeconds(seconds);
+            if (seconds >= maxRecordingDuration) {
+                stopRecording();
+            }
+        }, 250);
+
+        return () => window.clearInterval(timer);
+    }, [isRecording, maxRecordingDuration, stopRecording]);
+
+    // Stop the camera and microphone on unmount
+    React.useEffect(() => () => {
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        audioStreamRef.current?.getTracks().forEach(track => track.stop());
+    }, []);
+
+    // Props for the <video> element showing the live preview
+    const getVideoProps = useCallback((): React.VideoHTMLAttributes<HTMLVideoElement> & React.RefAttributes<HTMLVideoElement> => ({
+        ref: videoRef,
+        autoPlay: true,
+        playsInline: true,
+        muted: true,
+        onLoadedMetadata: () => {
+            // Ensure video starts playing
+            videoRef.current?.play().catch(console.error);
+        }
+    }), []);
+
+    return {
+        isOpen,
+        stream,
+        videoDevices,
+        activeDeviceId,
+        facingMode,
+        resolution,
+        isSwitching,
+        isRecording,
+        recordingSeconds,
+        maxRecordingDuration,
+        recordedClip,
+        withAudio,
+        setWithAudio,
+        namePrefix,
+        setNamePrefix,
+        open,
+        close,
+        switchCamera,
+        flip,
+        changeResolution,
+        capturePhoto,
+        startRecording,
+        stopRecording,
+        discardClip,
+        videoRef,
+        getVideoProps
+    };
+};
+
+export type CameraState = ReturnType<typeof useCamera>;
@@ -0,0 +1,127 @@
+import React, { useState, useRef, useCallback } from 'react';
+
+export interface MultiShotOptions {
+    burstCount?: number;    // frames per burst (default 5)
+    burstInterval?: number; // ms between burst frames (default 300)
+    timerDelays?: number[]; // self-timer choices in seconds, cycled by the timer button (default [3, 10])
+}
+
+export interface CapturedShot {
+    id: string;
+    file: File;
+    preview: string; // object URL, revoked when the shot is discarded or committed
+}
+
+export interface ShootOptions {
+    count?: number;    // 1 for a single shot, more for a burst
+    interval?: number; // ms between frames of a burst
+    delay?: number;    // self-timer, in seconds
+}
+
+export interface UseCaptureSessionOptions {
+    captureFrame: () => Promise<File | null>;
+    maxShots?: number; // slots left in the file list, checked before every frame
+}
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => window.setTimeout(resolve, ms));
+
+// Shots kept while the camera stays open, committed together when the session is done
+export const useCaptureSession = ({ captureFrame, maxShots = Infinity }: UseCaptureSessionOptions) => {
+    const [shots, setShots] = useState<CapturedShot[]>([]);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [isCapturing, setIsCapturing] = useState<boolean>(false);
+
+    // Read inside the capture loop, which outlives the render it started in
+    const shotsRef = useRef<CapturedShot[]>([]);
+    shotsRef.current = shots;
+    const maxShotsRef = useRef(maxShots);
+    maxShotsRef.current = maxShots;
+    const runRef = useRef(0); // bumped to cancel a running timer or burst
+    const busyRef = useRef(false);
+
+    // Update the ref along with the state, so the capture loop sees every shot taken or discarded so far
+    const updateShots = useCallback((update: (prev: CapturedShot[]) => CapturedShot[]): void => {
+        const updatedShots = update(shotsRef.current);
+        shotsRef.current = updatedShots;
+        setShots(updatedShots);
+    }, []);
+
+    const cancel = useCallback((): void => {
+        runRef.current++;
+        busyRef.current = false;
+        setCountdown(null);
+        setIsCapturing(false);
+    }, []);
+
+    const shoot = useCallback(async ({ count = 1, interval = 300, delay = 0 }: ShootOptions = {}): Promise<void> => {
+        if (busyRef.current) return;
+        const run = ++runRef.current;
+        const isCancelled = () => runRef.current !== run;
+
+        busyRef.current = true;
+        setIsCapturing(true);
+        try {
+            for (let remaining = delay; remaining > 0; remaining--) {
+                setCountdown(remaining);
+                await wait(1000);
+                if (isCancelled()) return;
+            }
+            setCountdown(null);
+
+            // Checked before every frame, shots discarded during a burst free their slots again
+            for (let frame = 0; frame < count; frame++) {
+                if (shotsRef.current.length >= maxShotsRef.current) break;
+                if (frame > 0) await wait(interval);
+                if (isCancelled()) break;
+
+                const file = await captureFrame();
+                if (!file) break;
+                const shot = { id: Math.random().toString(36).slice(2, 11), file, preview: URL.createObjectURL(file) };
+                updateShots(prev => [...prev, shot]);
+            }
+        } finally {
+            if (!isCancelled()) {
+                busyRef.current = false;
+                setCountdown(null);
+                setIsCapturing(false);
+            }
+        }
+    }, [captureFrame, updateShots]);
+
+    const discardShot = useCallback((id: string): void => {
+        const shot = shotsRef.current.find(s => s.id === id);
+        if (shot) URL.revokeObjectURL(shot.preview);
+        updateShots(prev => prev.filter(s => s.id !== id));
+    }, [updateShots]);
+
+    // Hand over the kept shots and start over
+    const commit = useCallback((): File[] => {
+        cancel();
+        const files = shotsRef.current.map(shot => shot.file);
+        shotsRef.current.forEach(shot => URL.revokeObjectURL(shot.preview));
+        updateShots(() => []);
+        return files;
+    }, [cancel, updateShots]);
+
+    const reset = useCallback((): void => {
+        commit();
+    }, [commit]);
+
+    // Release the previews when the component goes away
+    React.useEffect(() => () => {
+        runRef.current++;
+        shotsRef.current.forEach(shot => URL.revokeObjectURL(shot.preview));
+    }, []);
+
+    return {
+        shots,
+        countdown,
+        isCapturing,
+        remaining: Math.max(0, maxShots - shots.length),
+        shoot,
+        cancel,
+        discardShot,
+        commit,
+        reset
+    };
+};
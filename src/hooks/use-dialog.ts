@@ -0,0 +1,128 @@
+import React, { useRef, useCallback, useId } from 'react';
+
+export interface UseDialogOptions {
+    onClose: () => void;
+    isOpen?: boolean; // leave out when the dialog is only mounted while open
+    closeOnEscape?: boolean;
+}
+
+type DialogProps = React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement>;
+type TitleProps = React.HTMLAttributes<HTMLElement>;
+
+const FOCUSABLE_SELECTOR = [
+    'a[href]',
+    'button:not([disabled])',
+    'input:not([disabled]):not([type="hidden"])',
+    'select:not([disabled])',
+    'textarea:not([disabled])',
+    'video[controls]',
+    '[tabindex]:not([tabindex="-1"])'
+].join(',');
+
+// Focusable elements in tab order, skipping hidden ones
+const getFocusableElements = (container: HTMLElement): HTMLElement[] =>
+    Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+        .filter(element => element.getClientRects().length > 0);
+
+// Make everything outside the dialog inert, so screen reader virtual cursors and pointers cannot leave it.
+// Live regions are left alone so toasts and list announcements are still read. Returns the undo.
+const makeOutsideInert = (dialog: HTMLElement): (() => void) => {
+    const changed: HTMLElement[] = [];
+    for (let node: HTMLElement | null = dialog; node && node !== document.body; node = node.parentElement) {
+        const parent = node.parentElement;
+        if (!parent) break;
+        Array.from(parent.children).forEach(sibling => {
+            if (sibling === node || !(sibling instanceof HTMLElement) || sibling.inert) return;
+            if (sibling.matches('script, style, [aria-live]')) return;
+            sibling.inert = true;
+            changed.push(sibling);
+        });
+    }
+    return () => changed.forEach(element => {
+        element.inert = false;
+    });
+};
+
+// Modal dialog semantics without any markup: focus moves in on open (to a `data-autofocus` element
+// if there is one), the rest of the page is inert, Tab stays inside, Escape closes, and focus goes
+// back to the element that opened it
+export const useDialog = ({ onClose, isOpen = true, closeOnEscape = true }: UseDialogOptions) => {
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const titleId = useId();
+
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+
+    React.useEffect(() => {
+        if (!isOpen) return;
+
+        const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        const dialog = dialogRef.current;
+        const restoreOutside = dialog ? makeOutsideInert(dialog) : undefined;
+        if (dialog) {
+            const target = dialog.querySelector<HTMLElement>('[data-autofocus]') ?? getFocusableElements(dialog)[0] ?? dialog;
+            target.focus();
+        }
+
+        return () => {
+            restoreOutside?.();
+            // The opener may have been removed while the dialog was open
+            if (opener?.isConnected) {
+                opener.focus();
+            }
+        };
+    }, [isOpen]);
+
+    const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>): void => {
+        if (e.key === 'Escape' && closeOnEscape) {
+            e.preventDefault();
+            e.stopPropagation();
+            onCloseRef.current();
+            return;
+        }
+        if (e.key !== 'Tab') return;
+
+        // Wrap focus around the ends of the dialog
+        const focusable = getFocusableElements(e.currentTarget);
+        if (focusable.length === 0) {
+            e.preventDefault();
+            return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        const active = document.activeElement;
+        if (e.shiftKey && (active === first || active === e.currentTarget)) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && active === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    }, [closeOnEscape]);
+
+    // Props for the dialog container; handlers passed in run first
+    const getDialogProps = useCallback((props: DialogProps = {}): DialogProps => ({
+        ...props,
+        ref: dialogRef,
+        role: props.role ?? 'dialog',
+        'aria-modal': true,
+        'aria-labelledby': props['aria-labelledby'] ?? titleId,
+        tabIndex: -1,
+        onKeyDown: (e) => {
+            props.onKeyDown?.(e);
+            if (!e.defaultPrevented) handleKeyDown(e);
+        }
+    }), [titleId, handleKeyDown]);
+
+    // Props for the heading that names the dialog
+    const getTitleProps = useCallback((props: TitleProps = {}): TitleProps => ({
+        ...props,
+        id: titleId
+    }), [titleId]);
+
+    return {
+        titleId,
+        getDialogProps,
+        getTitleProps
+    };
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { detectDocumentInFrame, type Quad } from '@/lib/document-scan';
+
+export interface UseDocumentDetectionOptions {
+    videoRef: React.RefObject<HTMLVideoElement | null>;
+    enabled?: boolean;
+    interval?: number; // ms between detection passes
+}
+
+export interface FrameSize {
+    width: number;
+    height: number;
+}
+
+// Share of the previous position kept per pass, smooths out jitter between frames
+const SMOOTHING = 0.5;
+
+const blendQuads = (previous: Quad, next: Quad): Quad =>
+    next.map((point, index) => ({
+        x: previous[index].x * SMOOTHING + point.x * (1 - SMOOTHING),
+        y: previous[index].y * SMOOTHING + point.y * (1 - SMOOTHING)
+    })) as Quad;
+
+// Look for a page in the live preview a few times a second
+export const useDocumentDetection = ({ videoRef, enabled = true, interval = 250 }: UseDocumentDetectionOptions) => {
+    const [quad, setQuad] = useState<Quad | null>(null);
+    const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
+
+    React.useEffect(() => {
+        if (!enabled) {
+            setQuad(null);
+            return;
+        }
+
+        const canvas = document.createElement('canvas');
+        const timer = window.setInterval(() => {
+            const video = videoRef.current;
+            if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+            const { videoWidth: width, videoHeight: height } = video;
+            setFrameSize(prev => (prev?.width === width && prev.height === height ? prev : { width, height }));
+            const detected = detectDocumentInFrame(video, width, height, canvas);
+            setQuad(prev => (detected && prev ? blendQuads(prev, detected) : detected));
+        }, interval);
+
+        return () => window.clearInterval(timer);
+    }, [videoRef, enabled, interval]);
+
+    return { quad, frameSize };
+};
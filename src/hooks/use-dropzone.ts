@@ -0,0 +1,191 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { getDroppedFiles, getPastedFiles, getVisibleFiles } from '@/lib/file-entries';
+
+export interface UseDropzoneOptions {
+    onDrop: (files: File[]) => void;
+    accept?: string[]; // passed to the file input's `accept` attribute
+    multiple?: boolean;
+    disabled?: boolean;
+    paste?: PasteScope; // where pasted files (e.g. screenshots) are accepted
+}
+
+// 'zone' listens on the focused drop target, 'document' anywhere outside text fields
+export type PasteScope = 'zone' | 'document' | false;
+
+type RootProps = React.HTMLAttributes<HTMLElement>;
+type InputProps = React.InputHTMLAttributes<HTMLInputElement> & React.RefAttributes<HTMLInputElement>;
+
+// Drag-and-drop target plus a hidden file input, without any markup
+export const useDropzone = ({ onDrop, accept, multiple = true, disabled = false, paste = 'zone' }: UseDropzoneOptions) => {
+    const [isDragOver, setIsDragOver] = useState<boolean>(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const directoryInputRef = useRef<HTMLInputElement | null>(null);
+
+    const open = useCallback((): void => {
+        if (!disabled) {
+            inputRef.current?.click();
+        }
+    }, [disabled]);
+
+    // Folder picker, every file inside the chosen folder is added
+    const openDirectory = useCallback((): void => {
+        if (!disabled) {
+            directoryInputRef.current?.click();
+        }
+    }, [disabled]);
+
+    // Drag and drop handlers
+    const handleDragEnter = useCallback((e: React.DragEvent<HTMLElement>): void => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (!disabled) {
+            setIsDragOver(true);
+        }
+    }, [disabled]);
+
+    const handleDragLeave = useCallback((e: React.DragEvent<HTMLElement>): void => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragOver(false);
+    }, []);
+
+    const handleDragOver = useCallback((e: React.DragEvent<HTMLElement>): void => {
+        e.preventDefault();
+        e.stopPropagation();
+    }, []);
+
+    const handleDrop = useCallback(async (e: React.DragEvent<HTMLElement>): Promise<void> => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragOver(false);
+        if (disabled) return;
+
+        // Dropped folders are walked recursively
+        const droppedFiles = await getDroppedFiles(e.dataTransfer);
+        if (droppedFiles.length > 0) {
+            onDrop(droppedFiles);
+        }
+    }, [disabled, onDrop]);
+
+    const handlePaste = useCallback((clipboardData: DataTransfer | null): boolean => {
+        if (disabled || !clipboardData) return false;
+
+        const pastedFiles = getPastedFiles(clipboardData);
+        if (pastedFiles.length === 0) return false;
+
+        onDrop(pastedFiles);
+        return true;
+    }, [disabled, onDrop]);
+
+    // Document wide paste, text fields keep their normal paste behavior
+    React.useEffect(() => {
+        if (paste !== 'document') return;
+
+        const handleDocumentPaste = (e: ClipboardEvent): void => {
+            const target = e.target as HTMLElement | null;
+            if (target?.closest('input, textarea, [contenteditable]:not([contenteditable="false"])')) return;
+            if (handlePaste(e.clipboardData)) {
+                e.preventDefault();
+            }
+        };
+
+        document.addEventListener('paste', handleDocumentPaste);
+        return () => document.removeEventListener('paste', handleDocumentPaste);
+    }, [paste, handlePaste]);
+
+    // File input handler
+    const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>): void => {
+        if (e.target.files?.length) {
+            onDrop(Array.from(e.target.files));
+        }
+    }, [onDrop]);
+
+    // Props for the drop target, clicking it or pressing Enter/Space opens the file picker; handlers passed in run first
+    const getRootProps = useCallback((props: RootProps = {}): RootProps => ({
+        ...props,
+        onDragEnter: (e) => {
+            props.onDragEnter?.(e);
+            handleDragEnter(e);
+        },
+        onDragOver: (e) => {
+            props.onDragOver?.(e);
+            handleDragOver(e);
+        },
+        onDragLeave: (e) => {
+            props.onDragLeave?.(e);
+            handleDragLeave(e);
+        },
+        onDrop: (e) => {
+            props.onDrop?.(e);
+            handleDrop(e);
+        },
+        onClick: (e) => {
+            props.onClick?.(e);
+            if (!e.defaultPrevented) open();
+        },
+        // Focusable so keyboard users can open the picker (and paste) like a button
+        tabIndex: props.tabIndex ?? 0,
+        onKeyDown: (e) => {
+            props.onKeyDown?.(e);
+            // Keys pressed on buttons inside the zone keep their own meaning
+            if (e.defaultPrevented || e.target !== e.currentTarget) return;
+            if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                open();
+            }
+        },
+        ...(paste === 'zone' ? {
+            onPaste: (e: React.ClipboardEvent<HTMLElement>) => {
+                props.onPaste?.(e);
+                if (handlePaste(e.clipboardData)) {
+                    e.preventDefault();
+                }
+            }
+        } : {})
+    }), [paste, handleDragEnter, handleDragOver, handleDragLeave, handleDrop, handlePaste, open]);
+
+    // Props for the (usually hidden) file input
+    const getInputProps = useCallback((props: InputProps = {}): InputProps => ({
+        ...props,
+        ref: inputRef,
+        type: 'file',
+        multiple,
+        accept: accept?.join(','),
+        disabled,
+        onChange: (e) => {
+            props.onChange?.(e);
+            handleInputChange(e);
+        }
+    }), [multiple, accept, disabled, handleInputChange]);
+
+    // Props for the (usually hidden) folder input
+    const getDirectoryInputProps = useCallback((props: InputProps = {}): InputProps => ({
+        ...props,
+        // `webkitdirectory` is not a React prop, set it on the element
+        ref: (element: HTMLInputElement | null) => {
+            directoryInputRef.current = element;
+            if (element) {
+                element.webkitdirectory = true;
+            }
+        },
+        type: 'file',
+        multiple: true,
+        disabled,
+        onChange: (e) => {
+            props.onChange?.(e);
+            const folderFiles = e.target.files ? getVisibleFiles(e.target.files) : [];
+            if (folderFiles.length > 0) {
+                onDrop(folderFiles);
+            }
+        }
+    }), [disabled, onDrop]);
+
+    return {
+        isDragOver,
+        open,
+        openDirectory,
+        getRootProps,
+        getInputProps,
+        getDirectoryInputProps
+    };
+};
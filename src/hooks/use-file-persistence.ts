@@ -0,0 +1,106 @@
+import React, { useState, useRef } from 'react';
+import {
+    loadPersistedFiles,
+    savePersistedFiles,
+    type PersistedFileEntry
+} from '@/lib/file-persistence';
+import type { FileObject } from '@/hooks/use-camera-uploader';
+
+export interface RestoredFile extends Omit<PersistedFileEntry, 'order' | 'name' | 'type' | 'lastModified'> {
+    file: File;
+}
+
+export interface UseFilePersistenceOptions {
+    persistKey?: string; // persistence is off without a key
+    files: FileObject[];
+    onRestore: (files: RestoredFile[]) => void;
+}
+
+// Keep files that are not uploaded yet in IndexedDB and hand them back after a reload
+export const useFilePersistence = ({ persistKey, files, onRestore }: UseFilePersistenceOptions) => {
+    const [isRestoring, setIsRestoring] = useState<boolean>(!!persistKey);
+    const savedFilesRef = useRef<Map<string, File>>(new Map()); // contents already in storage, by id
+    const lastSnapshotRef = useRef<string | null>(null);
+    const onRestoreRef = useRef(onRestore);
+    onRestoreRef.current = onRestore;
+
+    // Restore once per key, before anything is written under it
+    React.useEffect(() => {
+        if (!persistKey) {
+            setIsRestoring(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsRestoring(true);
+        savedFilesRef.current = new Map();
+        lastSnapshotRef.current = null;
+
+        loadPersistedFiles(persistKey)
+            .then(persisted => {
+                if (cancelled || persisted.length === 0) return;
+
+                const restored = persisted.map(({ entry, blob }): RestoredFile => {
+                    const { order: _order, name, type, lastModified, ...details } = entry;
+                    const file = new File([blob], name, { type, lastModified });
+                    savedFilesRef.current.set(entry.id, file);
+                    return { ...details, file };
+                });
+                onRestoreRef.current(restored);
+            })
+            .catch(error => console.warn('Unable to restore saved files', error))
+            .finally(() => {
+                if (!cancelled) setIsRestoring(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [persistKey]);
+
+    // Mirror pending files into storage; uploaded and removed files are deleted from it
+    React.useEffect(() => {
+        if (!persistKey || isRestoring) return;
+
+        const pendingFiles = files.filter(f => f.status !== 'done');
+
+        // Progress updates re-render constantly, only write when something stored would change
+        const snapshot = JSON.stringify(pendingFiles.map(f => [f.id, f.name, f.size, f.file.lastModified, f.hash, f.isCover]));
+        if (snapshot === lastSnapshotRef.current) return;
+        lastSnapshotRef.current = snapshot;
+
+        const entries: PersistedFileEntry[] = pendingFiles.map((f, order) => ({
+            id: f.id,
+            name: f.name,
+            type: f.type,
+            lastModified: f.file.lastModified,
+            order,
+            originalSize: f.originalSize,
+            metadata: f.metadata,
+            hash: f.hash,
+            isCover: f.isCover
+        }));
+        const blobs = new Map<string, File>();
+        pendingFiles.forEach(f => {
+            if (savedFilesRef.current.get(f.id) !== f.file) {
+                blobs.set(f.id, f.file);
+            }
+        });
+
+        savePersistedFiles(persistKey, entries, blobs)
+            .then(() => {
+                blobs.forEach((file, id) => savedFilesRef.current.set(id, file));
+                const keep = new Set(entries.map(entry => entry.id));
+                savedFilesRef.current.forEach((_file, id) => {
+                    if (!keep.has(id)) savedFilesRef.current.delete(id);
+                });
+            })
+            .catch(error => {
+                // Quota exceeded or storage disabled, the list still works in memory
+                console.warn('Unable to save files for later', error);
+                lastSnapshotRef.current = null;
+            });
+    }, [persistKey, isRestoring, files]);
+
+    return { isRestoring };
+};
@@ -0,0 +1,104 @@
+import React, { useState, useRef, useCallback } from 'react';
+
+export interface UseSortableOptions {
+    ids: string[]; // current order
+    onMove: (id: string, toIndex: number) => void;
+    disabled?: boolean;
+}
+
+type ItemProps = React.HTMLAttributes<HTMLElement> & { ref: (element: HTMLElement | null) => void };
+
+// Pointer and keyboard reordering for lists and grids, items swap live while dragging
+export const useSortable = ({ ids, onMove, disabled = false }: UseSortableOptions) => {
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const itemsRef = useRef<Map<string, HTMLElement>>(new Map());
+
+    // Item under the pointer, measured from the rendered elements so any layout works
+    const findItemAt = useCallback((x: number, y: number): string | null => {
+        for (const [id, element] of itemsRef.current) {
+            const rect = element.getBoundingClientRect();
+            if (x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom) {
+                return id;
+            }
+        }
+        return null;
+    }, []);
+
+    const moveBy = useCallback((id: string, offset: number): void => {
+        const index = ids.indexOf(id);
+        const toIndex = Math.min(ids.length - 1, Math.max(0, index + offset));
+        if (index !== -1 && toIndex !== index) {
+            onMove(id, toIndex);
+        }
+    }, [ids, onMove]);
+
+    // Props for each sortable element
+    const getItemProps = useCallback((id: string): ItemProps => ({
+        ref: (element) => {
+            if (element) {
+                itemsRef.current.set(id, element);
+            } else {
+                itemsRef.current.delete(id);
+            }
+        },
+        'aria-grabbed': draggingId === id
+    }), [draggingId]);
+
+    // Props for the drag handle, a focusable element that also takes arrow keys
+    const getHandleProps = useCallback((id: string): React.HTMLAttributes<HTMLElement> => ({
+        role: 'button',
+        tabIndex: disabled ? -1 : 0,
+        'aria-disabled': disabled,
+        'aria-roledescription': 'sortable',
+        style: { touchAction: 'none', cursor: disabled ? undefined : draggingId === id ? 'grabbing' : 'grab' },
+        onPointerDown: (e) => {
+            if (disabled || e.button !== 0) return;
+            e.preventDefault();
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setDraggingId(id);
+        },
+        onPointerMove: (e) => {
+            if (draggingId !== id) return;
+            const targetId = findItemAt(e.clientX, e.clientY);
+            if (targetId && targetId !== id) {
+                onMove(id, ids.indexOf(targetId));
+            }
+        },
+        onPointerUp: () => setDraggingId(null),
+        onPointerCancel: () => setDraggingId(null),
+        onKeyDown: (e) => {
+            if (disabled) return;
+            // Left and right follow the reading direction, in RTL layouts the left arrow moves an item later
+            const isRtl = getComputedStyle(e.currentTarget).direction === 'rtl';
+            switch (e.key) {
+                case 'ArrowUp':
+                    moveBy(id, -1);
+                    break;
+                case 'ArrowDown':
+                    moveBy(id, 1);
+                    break;
+                case 'ArrowLeft':
+                    moveBy(id, isRtl ? 1 : -1);
+                    break;
+                case 'ArrowRight':
+                    moveBy(id, isRtl ? -1 : 1);
+                    break;
+                case 'Home':
+                    moveBy(id, -ids.length);
+                    break;
+                case 'End':
+                    moveBy(id, ids.length);
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+        }
+    }), [disabled, draggingId, ids, findItemAt, moveBy, onMove]);
+
+    return {
+        draggingId,
+        getItemProps,
+        getHandleProps
+    };
+};
@@ -0,0 +1,6 @@
+import { useMemo } from 'react';
+import { createTranslator, type I18nOptions, type Translator } from '@/lib/i18n';
+
+// Translator for the given locale and overrides, rebuilt only when either changes
+export const useTranslator = ({ locale, messages }: I18nOptions = {}): Translator =>
+    useMemo(() => createTranslator({ locale, messages }), [locale, messages]);
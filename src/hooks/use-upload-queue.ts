@@ -0,0 +1,190 @@
+import React, { useState, useRef, useCallback } from 'react';
+
+export interface OfflineQueueOptions {
+    baseDelay?: number;   // first retry delay in ms, doubled on every attempt
+    maxDelay?: number;    // upper bound for a single delay in ms
+    maxAttempts?: number; // attempts before the queue gives up and leaves the files failed
+}
+
+// Outcome of one pass over the pending files
+export interface UploadRunResult {
+    failed: number;
+    retryable: number; // failures that may succeed later (network errors, 5xx, 408, 429)
+    error: string | null;
+}
+
+export interface UploadQueueStatus {
+    isOnline: boolean;
+    isActive: boolean;          // uploads are queued and will be retried
+    attempt: number;            // failed attempts since the queue started
+    nextRetryAt: number | null; // epoch ms of the next scheduled attempt
+    lastError: string | null;
+}
+
+interface UseUploadQueueOptions extends OfflineQueueOptions {
+    enabled: boolean;
+    persistKey?: string; // remembers an active queue across reloads
+    isRestoring: boolean; // files are still being restored, do not resume yet
+    run: () => Promise<UploadRunResult>;
+    onSettled?: (result: UploadRunResult) => void; // queue finished or gave up
+}
+
+const QUEUE_KEY_PREFIX = 'camera-uploader:queue:';
+
+const readQueueFlag = (persistKey?: string): boolean => {
+    if (!persistKey) return false;
+    try {
+        return window.localStorage.getItem(QUEUE_KEY_PREFIX + persistKey) === '1';
+    } catch (_error) {
+        return false;
+    }
+};
+
+const writeQueueFlag = (persistKey: string | undefined, active: boolean): void => {
+    if (!persistKey) return;
+    try {
+        if (active) {
+            window.localStorage.setItem(QUEUE_KEY_PREFIX + persistKey, '1');
+        } else {
+            window.localStorage.removeItem(QUEUE_KEY_PREFIX + persistKey);
+        }
+    } catch (_error) {
+        // Storage disabled - the queue still works until the page is closed
+    }
+};
+
+// Exponential backoff with jitter so many clients coming back online do not retry in lockstep
+const getRetryDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+    const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+// Hold uploads while offline and retry failed ones with backoff until they go through
+export const useUploadQueue = ({
+    enabled,
+    persistKey,
+    isRestoring,
+    run,
+    onSettled,
+    baseDelay = 2000,
+    maxDelay = 5 * 60 * 1000,
+    maxAttempts = 8
+}: UseUploadQueueOptions) => {
+    const [isOnline, setIsOnline] = useState<boolean>(true);
+    const [isActive, setIsActive] = useState<boolean>(false);
+    const [attempt, setAttempt] = useState<number>(0);
+    const [nextRetryAt, setNextRetryAt] = useState<number | null>(null);
+    const [lastError, setLastError] = useState<string | null>(null);
+
+    const runningRef = useRef<boolean>(false);
+    const timerRef = useRef<number | null>(null);
+    const attemptRef = useRef<number>(0);
+    const runRef = useRef(run);
+    runRef.current = run;
+    const onSettledRef = useRef(onSettled);
+    onSettledRef.current = onSettled;
+
+    const clearTimer = useCallback((): void => {
+        if (timerRef.current !== null) {
+            window.clearTimeout(timerRef.current);
+            timerRef.current = null;
+        }
+        setNextRetryAt(null);
+    }, []);
+
+    const stop = useCallback((): void => {
+        clearTimer();
+        attemptRef.current = 0;
+        setAttempt(0);
+        setIsActive(false);
+        writeQueueFlag(persistKey, false);
+    }, [clearTimer, persistKey]);
+
+    // One pass; reschedules itself while retryable failures remain
+    const flush = useCallback(async (): Promise<void> => {
+        if (runningRef.current) return;
+        if (!navigator.onLine) return; // resumed by the online listener
+
+        clearTimer();
+        runningRef.current = true;
+        let result: UploadRunResult;
+        try {
+            result = await runRef.current();
+        } catch (error) {
+            console.error('Queued upload error:', error);
+            result = { failed: 1, retryable: 1, error: error instanceof Error ? error.message : 'Upload failed' };
+        } finally {
+            runningRef.current = false;
+        }
+
+        setLastError(result.error);
+        if (result.retryable === 0) {
+            stop();
+            onSettledRef.current?.(result);
+            return;
+        }
+
+        attemptRef.current += 1;
+        setAttempt(attemptRef.current);
+        if (attemptRef.current >= maxAttempts) {
+            stop();
+            onSettledRef.current?.(result);
+            return;
+        }
+
+        const delay = getRetryDelay(attemptRef.current, baseDelay, maxDelay);
+        setNextRetryAt(Date.now() + delay);
+        timerRef.current = window.setTimeout(() => {
+            timerRef.current = null;
+            flush();
+        }, delay);
+    }, [clearTimer, stop, maxAttempts, baseDelay, maxDelay]);
+
+    // Queue the pending files; they are sent now when online, otherwise as soon as the connection returns
+    const start = useCallback((): void => {
+        attemptRef.current = 0;
+        setAttempt(0);
+        setLastError(null);
+        setIsActive(true);
+        writeQueueFlag(persistKey, true);
+        flush();
+    }, [persistKey, flush]);
+
+    // Track connectivity, retrying straight away when it comes back
+    React.useEffect(() => {
+        if (!enabled) return;
+
+        setIsOnline(navigator.onLine);
+        const handleOnline = (): void => setIsOnline(true);
+        const handleOffline = (): void => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [enabled]);
+
+    React.useEffect(() => {
+        if (enabled && isActive && isOnline) {
+            flush();
+        }
+    }, [enabled, isActive, isOnline, flush]);
+
+    // Pick up a queue left active before a reload once the saved files are back
+    React.useEffect(() => {
+        if (enabled && !isRestoring && readQueueFlag(persistKey)) {
+            setIsActive(true);
+        }
+    }, [enabled, isRestoring, persistKey]);
+
+    React.useEffect(() => () => {
+        if (timerRef.current !== null) {
+            window.clearTimeout(timerRef.current);
+        }
+    }, []);
+
+    const status: UploadQueueStatus = { isOnline, isActive, attempt, nextRetryAt, lastError };
+
+    return { status, start, stop, retryNow: flush };
+};
@@ -0,0 +1,382 @@
+// Barcode reading for the camera's scan mode: the native BarcodeDetector where the browser has one,
+// otherwise a small scanline decoder for EAN-13, EAN-8 and Code 128 plus jsQR for QR codes
+// (or a decoder supplied by the host)
+
+// Format names as used by the Barcode Detection API
+export type BarcodeFormat =
+    | 'qr_code'
+    | 'ean_13'
+    | 'ean_8'
+    | 'upc_a'
+    | 'upc_e'
+    | 'code_128'
+    | 'code_39'
+    | 'code_93'
+    | 'codabar'
+    | 'itf'
+    | 'data_matrix'
+    | 'aztec'
+    | 'pdf417';
+
+export interface DetectedCode {
+    format: BarcodeFormat;
+    value: string;
+}
+
+// Custom decoder for browsers without BarcodeDetector, e.g. a zxing WASM build for Data Matrix or PDF417
+export type BarcodeDecoder = (image: ImageData, formats: BarcodeFormat[]) => DetectedCode[] | Promise<DetectedCode[]>;
+
+export interface BarcodeScanOptions {
+    formats?: BarcodeFormat[];  // defaults to QR, EAN-13, EAN-8 and Code 128
+    decoder?: BarcodeDecoder;   // fallback for browsers without BarcodeDetector
+    snapPhoto?: boolean;        // add a photo of the frame each time a code is read
+}
+
+export const BARCODE_FORMAT_LABELS: Record<BarcodeFormat, string> = {
+    qr_code: 'QR',
+    ean_13: 'EAN-13',
+    ean_8: 'EAN-8',
+    upc_a: 'UPC-A',
+    upc_e: 'UPC-E',
+    code_128: 'Code 128',
+    code_39: 'Code 39',
+    code_93: 'Code 93',
+    codabar: 'Codabar',
+    itf: 'ITF',
+    data_matrix: 'Data Matrix',
+    aztec: 'Aztec',
+    pdf417: 'PDF417'
+};
+
+export const DEFAULT_BARCODE_FORMATS: BarcodeFormat[] = ['qr_code', 'ean_13', 'ean_8', 'code_128'];
+
+// Formats the built-in scanline decoder understands
+export const LINEAR_FORMATS: BarcodeFormat[] = ['ean_13', 'ean_8', 'code_128'];
+
+// The parts of the Barcode Detection API used here, it is not in the TypeScript DOM types yet
+interface NativeBarcodeDetector {
+    detect: (source: ImageBitmapSource) => Promise<{ format: string; rawValue: string }[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+    new (options?: { formats: string[] }): NativeBarcodeDetector;
+    getSupportedFormats: () => Promise<string[]>;
+}
+
+const getNativeDetector = (): NativeBarcodeDetectorConstructor | undefined =>
+    (globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+
+// EAN digit patterns as module widths, in scan order
+const EAN_L_PATTERNS = [
+    [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+    [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+];
+const EAN_G_PATTERNS = EAN_L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// Which left-half digits use the G set encodes the first EAN-13 digit
+const EAN_13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Code 128 symbols 0-105 as bar/space module widths, 106 is the stop pattern
+const CODE_128_PATTERNS = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+].map(pattern => pattern.split('').map(Number));
+
+const CODE_128_STOP = 106;
+const MAX_PATTERN_ERROR = 0.35; // average deviation per run, in modules
+const MIN_MATCHING_LINES = 2;   // a code has to be read on this many scanlines before it counts
+
+// Closest pattern to the measured run widths, scaled to the pattern's module count
+const matchPattern = (runs: number[], patterns: number[][]): { index: number; error: number } => {
+    const total = runs.reduce((sum, run) => sum + run, 0);
+    let best = { index: -1, error: Infinity };
+    patterns.forEach((pattern, index) => {
+        if (pattern.length !== runs.length) return;
+        const modules = pattern.reduce((sum, width) => sum + width, 0);
+        const error = runs.reduce((sum, run, i) => sum + Math.abs((run / total) * modules - pattern[i]), 0) / runs.length;
+        if (error < best.error) best = { index, error };
+    });
+    return best.error <= MAX_PATTERN_ERROR ? best : { index: -1, error: Infinity };
+};
+
+const isGuard = (runs: number[], moduleWidth: number): boolean =>
+    runs.every(run => Math.abs(run / moduleWidth - 1) < 0.6);
+
+const hasValidEanChecksum = (digits: number[]): boolean => {
+    const sum = digits.slice(0, -1).reverse().reduce((acc, digit, index) => acc + digit * (index % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === digits[digits.length - 1];
+};
+
+// EAN-13 / EAN-8 starting at a bar run: guard, left digits, middle guard, right digits, guard
+const decodeEan = (runs: number[], start: number, digitCount: 8 | 13): string | null => {
+    const halfDigits = digitCount === 13 ? 6 : 4;
+    const runCount = 3 + halfDigits * 4 + 5 + halfDigits * 4 + 3;
+    const moduleCount = 3 + halfDigits * 7 + 5 + halfDigits * 7 + 3;
+    if (start + runCount > runs.length) return null;
+
+    const symbol = runs.slice(start, start + runCount);
+    const moduleWidth = symbol.reduce((sum, run) => sum + run, 0) / moduleCount;
+
+    // The quiet zone in front has to be clearly wider than a module
+    if (start > 0 && runs[start - 1] < moduleWidth * 3) return null;
+    const middle = 3 + halfDigits * 4;
+    if (!isGuard(symbol.slice(0, 3), moduleWidth) || !isGuard(symbol.slice(middle, middle + 5), moduleWidth)
+        || !isGuard(symbol.slice(runCount - 3), moduleWidth)) {
+        return null;
+    }
+
+    const digits: number[] = [];
+    let parity = '';
+    for (let digit = 0; digit < halfDigits; digit++) {
+        const offset = 3 + digit * 4;
+        const digitRuns = symbol.slice(offset, offset + 4);
+        const left = matchPattern(digitRuns, EAN_L_PATTERNS);
+        const even = digitCount === 13 ? matchPattern(digitRuns, EAN_G_PATTERNS) : { index: -1, error: Infinity };
+        if (left.index === -1 && even.index === -1) return null;
+        if (left.error <= even.error) {
+            digits.push(left.index);
+            parity += 'L';
+        } else {
+            digits.push(even.index);
+            parity += 'G';
+        }
+    }
+    for (let digit = 0; digit < halfDigits; digit++) {
+        const offset = middle + 5 + digit * 4;
+        const right = matchPattern(symbol.slice(offset, offset + 4), EAN_L_PATTERNS);
+        if (right.index === -1) return null;
+        digits.push(right.index);
+    }
+
+    if (digitCount === 13) {
+        const first = EAN_13_PARITY.indexOf(parity);
+        if (first === -1) return null;
+        digits.unshift(first);
+    } else if (parity !== 'LLLL') {
+        return null;
+    }
+
+    return hasValidEanChecksum(digits) ? digits.join('') : null;
+};
+
+// Turn Code 128 symbol values into text, following the code set switches
+const decodeCode128Values = (values: number[]): string | null => {
+    let codeSet = values[0] === 103 ? 'A' : values[0] === 104 ? 'B' : 'C';
+    let shifted = false;
+    let text = '';
+
+    for (const value of values.slice(1)) {
+        const activeSet = shifted ? (codeSet === 'A' ? 'B' : 'A') : codeSet;
+        shifted = false;
+
+        if (activeSet === 'C') {
+            if (value < 100) text += value.toString().padStart(2, '0');
+            else if (value === 100) codeSet = 'B';
+            else if (value === 101) codeSet = 'A';
+            continue; // 102 is FNC1
+        }
+
+        if (value < 64) {
+            text += String.fromCharCode(value + 32);
+        } else if (value < 96) {
+            text += String.fromCharCode(activeSet === 'A' ? value - 64 : value + 32);
+        } else if (value === 98) {
+            shifted = true;
+        } else if (value === 99) {
+            codeSet = 'C';
+        } else if (value === 100 && activeSet === 'A') {
+            codeSet = 'B';
+        } else if (value === 101 && activeSet === 'B') {
+            codeSet = 'A';
+        }
+        // FNC1-4 carry no text
+    }
+    return text || null;
+};
+
+// Code 128 starting at a bar run: start symbol, data symbols, checksum, stop
+const decodeCode128 = (runs: number[], start: number): string | null => {
+    const startSymbol = matchPattern(runs.slice(start, start + 6), CODE_128_PATTERNS);
+    if (startSymbol.index < 103 || startSymbol.index > 105) return null;
+
+    const moduleWidth = runs.slice(start, start + 6).reduce((sum, run) => sum + run, 0) / 11;
+    if (start > 0 && runs[start - 1] < moduleWidth * 5) return null;
+
+    const values = [startSymbol.index];
+    let offset = start + 6;
+    while (offset + 6 <= runs.length) {
+        // The stop pattern is the only one with seven runs
+        if (offset + 7 <= runs.length && matchPattern(runs.slice(offset, offset + 7), CODE_128_PATTERNS).index === CODE_128_STOP) {
+            if (values.length < 3) return null;
+            const checksum = values.pop() as number;
+            const expected = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+            return checksum === expected ? decodeCode128Values(values) : null;
+        }
+        const symbol = matchPattern(runs.slice(offset, offset + 6), CODE_128_PATTERNS.slice(0, 106));
+        if (symbol.index === -1) return null;
+        values.push(symbol.index);
+        offset += 6;
+    }
+    return null;
+};
+
+// Run lengths of one line of pixels, starting with the first dark run
+const getRuns = (luminance: Float32Array): number[] => {
+    let min = 255;
+    let max = 0;
+    luminance.forEach(value => {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+    });
+    if (max - min < 40) return []; // too flat to hold a barcode
+
+    const threshold = (min + max) / 2;
+    const runs: number[] = [];
+    let dark = luminance[0] < threshold;
+    let length = 0;
+    if (dark) runs.push(0); // runs alternate light/dark, starting with a light (quiet zone) run
+    luminance.forEach(value => {
+        const isDark = value < threshold;
+        if (isDark === dark) {
+            length++;
+        } else {
+            runs.push(length);
+            dark = isDark;
+            length = 1;
+        }
+    });
+    runs.push(length);
+    return runs;
+};
+
+// All codes on one scanline, read left to right
+const decodeRuns = (runs: number[], formats: BarcodeFormat[]): DetectedCode[] => {
+    const codes: DetectedCode[] = [];
+    // Odd indices are dark runs, every barcode starts with a bar
+    for (let start = 1; start < runs.length; start += 2) {
+        const candidates: [BarcodeFormat, () => string | null][] = [
+            ['ean_13', () => decodeEan(runs, start, 13)],
+            ['ean_8', () => decodeEan(runs, start, 8)],
+            ['code_128', () => decodeCode128(runs, start)]
+        ];
+        for (const [format, decode] of candidates) {
+            if (!formats.includes(format)) continue;
+            const value = decode();
+            if (value) {
+                codes.push({ format, value });
+                break;
+            }
+        }
+    }
+    return codes;
+};
+
+// Read 1D barcodes along horizontal lines through the middle of the image, in both directions
+export const decodeLinearBarcodes = (image: ImageData, formats: BarcodeFormat[] = LINEAR_FORMATS): DetectedCode[] => {
+    const { width, height, data } = image;
+    const counts = new Map<string, { code: DetectedCode; lines: number }>();
+    const lineCount = 15;
+
+    for (let line = 0; line < lineCount; line++) {
+        const y = Math.round(height * (0.2 + (0.6 * line) / (lineCount - 1)));
+        const luminance = new Float32Array(width);
+        for (let x = 0; x < width; x++) {
+            const index = (y * width + x) * 4;
+            luminance[x] = data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114;
+        }
+
+        const found = [
+            ...decodeRuns(getRuns(luminance), formats),
+            ...decodeRuns(getRuns(luminance.slice().reverse()), formats)
+        ];
+        const seenOnLine = new Set<string>();
+        found.forEach(code => {
+            const key = `${code.format}:${code.value}`;
+            if (seenOnLine.has(key)) return;
+            seenOnLine.add(key);
+            const entry = counts.get(key) ?? { code, lines: 0 };
+            entry.lines++;
+            counts.set(key, entry);
+        });
+    }
+
+    return Array.from(counts.values())
+        .filter(entry => entry.lines >= MIN_MATCHING_LINES)
+        .map(entry => entry.code);
+};
+
+const FRAME_MAX_WIDTH = 1280; // wide enough for thin bars, small enough to read every few hundred ms
+
+// jsQR is only downloaded when QR codes are asked for and the browser cannot read them itself
+const loadQrDecoder = async (): Promise<((image: ImageData) => DetectedCode[]) | null> => {
+    try {
+        const { default: jsQR } = await import('jsqr');
+        return (image) => {
+            const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+            return code ? [{ format: 'qr_code', value: code.data }] : [];
+        };
+    } catch (error) {
+        console.warn('Unable to load the QR code decoder', error);
+        return null;
+    }
+};
+
+export interface BarcodeReader {
+    detect: (video: HTMLVideoElement) => Promise<DetectedCode[]>;
+    isNative: boolean;
+    formats: BarcodeFormat[]; // formats this reader can actually decode
+}
+
+// Pick the best available way to read the requested formats
+export const createBarcodeReader = async (
+    formats: BarcodeFormat[] = DEFAULT_BARCODE_FORMATS,
+    decoder?: BarcodeDecoder
+): Promise<BarcodeReader> => {
+    const NativeDetector = getNativeDetector();
+    if (NativeDetector) {
+        try {
+            const supported = await NativeDetector.getSupportedFormats();
+            const nativeFormats = formats.filter(format => supported.includes(format));
+            if (nativeFormats.length > 0) {
+                const detector = new NativeDetector({ formats: nativeFormats });
+                return {
+                    detect: async (video) => (await detector.detect(video))
+                        .map(({ format, rawValue }) => ({ format: format as BarcodeFormat, value: rawValue })),
+                    isNative: true,
+                    formats: nativeFormats
+                };
+            }
+        } catch (error) {
+            console.warn('BarcodeDetector is not usable, falling back to the scanline decoder', error);
+        }
+    }
+
+    const decodeQr = !decoder && formats.includes('qr_code') ? await loadQrDecoder() : null;
+    const canvas = document.createElement('canvas');
+    const decode = decoder ?? ((image: ImageData, requested: BarcodeFormat[]) => [
+        ...decodeLinearBarcodes(image, requested),
+        ...(decodeQr ? decodeQr(image) : [])
+    ]);
+    return {
+        detect: async (video) => {
+            const scale = Math.min(1, FRAME_MAX_WIDTH / video.videoWidth);
+            canvas.width = Math.round(video.videoWidth * scale);
+            canvas.height = Math.round(video.videoHeight * scale);
+            const context = canvas.getContext('2d', { willReadFrequently: true });
+            if (!context || canvas.width === 0 || canvas.height === 0) return [];
+            context.drawImage(video, 0, 0, canvas.width, canvas.height);
+            return decode(context.getImageData(0, 0, canvas.width, canvas.height), formats);
+        },
+        isNative: false,
+        formats: decoder ? formats : formats.filter(format => LINEAR_FORMATS.includes(format) || (format === 'qr_code' && decodeQr))
+    };
+};
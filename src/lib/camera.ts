@@ -0,0 +1,55 @@
+// Camera selection helpers shared by the camera modal
+
+export type FacingMode = 'user' | 'environment';
+export type ResolutionPreset = 'sd' | 'hd' | 'fhd';
+
+export interface CameraSelection {
+    deviceId?: string; // specific camera, takes precedence over facingMode
+    facingMode: FacingMode;
+    resolution: ResolutionPreset;
+}
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { label: string; width: number; height: number }> = {
+    sd: { label: '480p', width: 640, height: 480 },
+    hd: { label: '720p', width: 1280, height: 720 },
+    fhd: { label: '1080p', width: 1920, height: 1080 }
+};
+
+const LAST_DEVICE_KEY = 'camera-uploader:last-device';
+
+// Build getUserMedia video constraints, letting the host override any field
+export const buildVideoConstraints = (
+    { deviceId, facingMode, resolution }: CameraSelection,
+    overrides: MediaTrackConstraints = {}
+): MediaTrackConstraints => {
+    const preset = RESOLUTION_PRESETS[resolution];
+    return {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: { ideal: facingMode } }),
+        width: { ideal: preset.width },
+        height: { ideal: preset.height },
+        ...overrides
+    };
+};
+
+// Video inputs only have labels once camera permission has been granted
+export const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+};
+
+export const readLastDeviceId = (): string | null => {
+    try {
+        return window.localStorage.getItem(LAST_DEVICE_KEY);
+    } catch (_error) {
+        return null;
+    }
+};
+
+export const saveLastDeviceId = (deviceId: string): void => {
+    try {
+        window.localStorage.setItem(LAST_DEVICE_KEY, deviceId);
+    } catch (_error) {
+        // Storage disabled, the camera just won't be remembered
+    }
+};
@@ -0,0 +1,266 @@
+// Resumable chunked uploads, speaking the tus 1.0 protocol (https://tus.io/protocols/resumable-upload)
+import type { UploadProgress, UploadTransport } from '@/lib/upload-transport';
+import { UploadHttpError } from '@/lib/upload-transport';
+
+const TUS_VERSION = '1.0.0';
+
+export interface UploadSession {
+    uploadUrl: string;
+    offset: number; // last offset acknowledged by the server
+}
+
+// Where upload sessions are kept between attempts and page reloads
+export interface UploadSessionStore {
+    get: (fingerprint: string) => UploadSession | null;
+    set: (fingerprint: string, session: UploadSession) => void;
+    remove: (fingerprint: string) => void;
+}
+
+export interface ChunkedTransportOptions {
+    endpoint: string;             // tus creation endpoint
+    chunkSize?: number;           // bytes per PATCH request
+    headers?: Record<string, string>;
+    metadata?: Record<string, string>; // extra Upload-Metadata sent on creation
+    retryDelays?: number[];       // delays (ms) between retries of a failed chunk
+    sessionStore?: UploadSessionStore;
+}
+
+export interface ChunkedUploadResult {
+    uploadUrl: string;
+}
+
+interface TusResponse {
+    status: number;
+    body: string;
+    getHeader: (name: string) => string | null;
+}
+
+// Persist sessions in localStorage so they survive a reload
+export const createLocalStorageSessionStore = (prefix = 'camera-uploader:session:'): UploadSessionStore => ({
+    get: (fingerprint) => {
+        try {
+            const raw = window.localStorage.getItem(prefix + fingerprint);
+            return raw ? JSON.parse(raw) as UploadSession : null;
+        } catch (_error) {
+            return null;
+        }
+    },
+    set: (fingerprint, session) => {
+        try {
+            window.localStorage.setItem(prefix + fingerprint, JSON.stringify(session));
+        } catch (_error) {
+            // Storage full or disabled - the upload still works, it just can't resume after a reload
+        }
+    },
+    remove: (fingerprint) => {
+        try {
+            window.localStorage.removeItem(prefix + fingerprint);
+        } catch (_error) {
+            // Ignore
+        }
+    }
+});
+
+// Identify a file across reloads (the File object itself cannot be persisted)
+const getFingerprint = (file: File, endpoint: string): string =>
+    [endpoint, file.name, file.type, file.size, file.lastModified].join('::');
+
+// tus metadata values are base64 encoded UTF-8
+const toBase64 = (value: string): string => {
+    let binary = '';
+    new TextEncoder().encode(value).forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+};
+
+const encodeMetadata = (metadata: Record<string, string>): string =>
+    Object.entries(metadata)
+        .map(([key, value]) => `${key} ${toBase64(value)}`)
+        .join(',');
+
+const createAbortError = (): DOMException => new DOMException('Upload aborted', 'AbortError');
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    const handleAbort = (): void => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+});
+
+// Single tus request over XHR so chunk bodies report progress
+const sendTusRequest = (
+    method: 'POST' | 'HEAD' | 'PATCH',
+    url: string,
+    headers: Record<string, string>,
+    signal: AbortSignal,
+    body?: Blob,
+    onProgress?: (loaded: number) => void
+): Promise<TusResponse> => new Promise((resolve, reject) => {
+    if (signal.aborted) {
+        reject(createAbortError());
+        return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+    const handleAbort = (): void => xhr.abort();
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    if (onProgress) {
+        xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+
+    xhr.onload = () => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve({
+            status: xhr.status,
+            body: xhr.responseText,
+            getHeader: (name) => xhr.getResponseHeader(name)
+        });
+    };
+
+    xhr.onerror = () => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(new Error('Network error while uploading'));
+    };
+
+    xhr.onabort = () => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(createAbortError());
+    };
+
+    xhr.send(body ?? null);
+});
+
+const parseOffset = (response: TusResponse): number => {
+    const offset = Number(response.getHeader('Upload-Offset'));
+    if (!Number.isFinite(offset) || offset < 0) {
+        throw new Error('Server response is missing a valid Upload-Offset header');
+    }
+    return offset;
+};
+
+// Chunked transport that resumes from the last acknowledged offset
+export const createChunkedTransport = ({
+    endpoint,
+    chunkSize = 5 * 1024 * 1024, // 5MB default
+    headers = {},
+    metadata = {},
+    retryDelays = [1000, 3000, 5000],
+    sessionStore = createLocalStorageSessionStore()
+}: ChunkedTransportOptions): UploadTransport<ChunkedUploadResult> => {
+    // Create a new upload on the server and return its URL
+    const createUpload = async (file: File, signal: AbortSignal): Promise<string> => {
+        const response = await sendTusRequest('POST', endpoint, {
+            ...headers,
+            'Upload-Length': String(file.size),
+            'Upload-Metadata': encodeMetadata({
+                filename: file.name,
+                filetype: file.type,
+                ...metadata
+            })
+        }, signal);
+
+        const location = response.getHeader('Location');
+        if (response.status !== 201 || !location) {
+            throw new UploadHttpError(response.status, response.body);
+        }
+        return new URL(location, new URL(endpoint, window.location.href)).toString();
+    };
+
+    // Ask the server how much of an existing upload it already has
+    const fetchOffset = async (uploadUrl: string, signal: AbortSignal): Promise<number | null> => {
+        const response = await sendTusRequest('HEAD', uploadUrl, headers, signal);
+        if (response.status === 404 || response.status === 410) {
+            return null; // Expired or unknown upload, start over
+        }
+        if (response.status < 200 || response.status >= 300) {
+            throw new UploadHttpError(response.status, response.body);
+        }
+        return parseOffset(response);
+    };
+
+    return {
+        upload: async (file, { signal, onProgress }) => {
+            const fingerprint = getFingerprint(file, endpoint);
+            const report = (loaded: number): void => {
+                const progress: UploadProgress = { loaded: Math.min(loaded, file.size), total: file.size };
+                onProgress(progress);
+            };
+
+            // Resume a stored session when the server still knows about it
+            let uploadUrl: string | null = null;
+            let offset = 0;
+            const stored = sessionStore.get(fingerprint);
+            if (stored) {
+                const serverOffset = await fetchOffset(stored.uploadUrl, signal);
+                if (serverOffset !== null) {
+                    uploadUrl = stored.uploadUrl;
+                    offset = serverOffset;
+                } else {
+                    sessionStore.remove(fingerprint);
+                }
+            }
+
+            if (!uploadUrl) {
+                uploadUrl = await createUpload(file, signal);
+                sessionStore.set(fingerprint, { uploadUrl, offset: 0 });
+            }
+
+            report(offset);
+
+            let attempt = 0;
+            while (offset < file.size) {
+                const chunk = file.slice(offset, offset + chunkSize);
+                try {
+                    const response = await sendTusRequest('PATCH', uploadUrl, {
+                        ...headers,
+                        'Content-Type': 'application/offset+octet-stream',
+                        'Upload-Offset': String(offset)
+                    }, signal, chunk, (loaded) => report(offset + loaded));
+
+                    if (response.status !== 204 && response.status !== 200) {
+                        throw new UploadHttpError(response.status, response.body);
+                    }
+
+                    offset = parseOffset(response);
+                    attempt = 0;
+                    sessionStore.set(fingerprint, { uploadUrl, offset });
+                    report(offset);
+                } catch (error) {
+                    // Keep the session on cancel so a retry picks up where it left off
+                    if (error instanceof Error && error.name === 'AbortError') throw error;
+
+                    // Client errors other than an offset conflict will not go away by retrying
+                    const status = error instanceof UploadHttpError ? error.status : 0;
+                    const retryable = status === 0 || status === 409 || status === 423 || status >= 500;
+                    if (!retryable || attempt >= retryDelays.length) throw error;
+
+                    await wait(retryDelays[attempt], signal);
+                    attempt++;
+
+                    // Re-sync with the server before sending the next chunk
+                    const serverOffset = await fetchOffset(uploadUrl, signal);
+                    if (serverOffset === null) {
+                        sessionStore.remove(fingerprint);
+                        throw new Error('Upload session expired on the server');
+                    }
+                    offset = serverOffset;
+                    report(offset);
+                }
+            }
+
+            sessionStore.remove(fingerprint);
+            return { uploadUrl };
+        }
+    };
+};
@@ -0,0 +1,410 @@
+// Page detection, perspective correction and clean-up for the document scan mode. Pure canvas, no network.
+import { createImagePdf } from '@/lib/pdf';
+
+export interface Point {
+    x: number; // fractions of the frame, 0-1
+    y: number;
+}
+
+// Corners in order: top left, top right, bottom right, bottom left
+export type Quad = [Point, Point, Point, Point];
+
+export type DocumentEnhancement = 'color' | 'grayscale' | 'blackwhite';
+
+export interface ScannedPage {
+    file: File; // JPEG of the flattened page
+    width: number;
+    height: number;
+}
+
+const DETECTION_SIZE = 240;     // longest edge of the frame the detector looks at
+const MIN_PAGE_AREA = 0.15;     // share of the frame a page has to cover
+const MAX_PAGE_AREA = 0.97;     // anything larger is just a bright frame
+const MIN_QUAD_FILL = 0.8;      // share of the quad the bright region has to fill
+const MAX_OUTPUT_SIZE = 2400;   // longest edge of the flattened page
+const THRESHOLD_OFFSET = 0.12;  // how much darker than its surroundings a pixel has to be to turn black
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+// Inset rectangle used when no page could be found
+export const DEFAULT_QUAD: Quad = [
+    { x: 0.1, y: 0.1 },
+    { x: 0.9, y: 0.1 },
+    { x: 0.9, y: 0.9 },
+    { x: 0.1, y: 0.9 }
+];
+
+const toGrayscale = (data: Uint8ClampedArray, pixelCount: number): Uint8Array => {
+    const gray = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    }
+    return gray;
+};
+
+// Threshold that best splits the histogram into two classes
+const getOtsuThreshold = (gray: Uint8Array): number => {
+    const histogram = new Array<number>(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+
+    const total = gray.length;
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let backgroundSum = 0;
+    let backgroundCount = 0;
+    let bestVariance = 0;
+    let threshold = 127;
+
+    for (let value = 0; value < 256; value++) {
+        backgroundCount += histogram[value];
+        if (backgroundCount === 0) continue;
+        const foregroundCount = total - backgroundCount;
+        if (foregroundCount === 0) break;
+
+        backgroundSum += value * histogram[value];
+        const backgroundMean = backgroundSum / backgroundCount;
+        const foregroundMean = (sum - backgroundSum) / foregroundCount;
+        const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            threshold = value;
+        }
+    }
+    return threshold;
+};
+
+// Pixel indices of the largest 4-connected region of the mask
+const getLargestRegion = (mask: Uint8Array, width: number, height: number): Int32Array => {
+    const labels = new Int32Array(mask.length);
+    const stack = new Int32Array(mask.length);
+    let best = new Int32Array(0);
+    let label = 0;
+
+    for (let start = 0; start < mask.length; start++) {
+        if (!mask[start] || labels[start]) continue;
+        label++;
+
+        const region: number[] = [];
+        let top = 0;
+        stack[top++] = start;
+        labels[start] = label;
+        while (top > 0) {
+            const index = stack[--top];
+            region.push(index);
+            const x = index % width;
+            const neighbors = [
+                x > 0 ? index - 1 : -1,
+                x < width - 1 ? index + 1 : -1,
+                index >= width ? index - width : -1,
+                index < width * (height - 1) ? index + width : -1
+            ];
+            for (const next of neighbors) {
+                if (next >= 0 && mask[next] && !labels[next]) {
+                    labels[next] = label;
+                    stack[top++] = next;
+                }
+            }
+        }
+
+        if (region.length > best.length) {
+            best = Int32Array.from(region);
+        }
+    }
+    return best;
+};
+
+const getQuadArea = (quad: Quad): number => {
+    let area = 0;
+    quad.forEach((point, index) => {
+        const next = quad[(index + 1) % 4];
+        area += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(area) / 2;
+};
+
+// Every turn goes the same way and no corner is folded onto another
+export const isConvexQuad = (quad: Quad): boolean => {
+    let sign = 0;
+    for (let index = 0; index < 4; index++) {
+        const a = quad[index];
+        const b = quad[(index + 1) % 4];
+        const c = quad[(index + 2) % 4];
+        const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+        if (Math.abs(cross) < 1e-9) return false;
+        if (sign === 0) {
+            sign = Math.sign(cross);
+        } else if (Math.sign(cross) !== sign) {
+            return false;
+        }
+    }
+    return true;
+};
+
+// Find a page in a frame: the largest bright region, reduced to its four extreme corners.
+// Works for light paper on a darker background, which covers receipts and ID cards on a desk.
+export const detectDocument = (image: ImageData): Quad | null => {
+    const { width, height, data } = image;
+    const pixelCount = width * height;
+    if (pixelCount === 0) return null;
+
+    const gray = toGrayscale(data, pixelCount);
+    const threshold = getOtsuThreshold(gray);
+    const mask = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        mask[i] = gray[i] > threshold ? 1 : 0;
+    }
+
+    const region = getLargestRegion(mask, width, height);
+    const share = region.length / pixelCount;
+    if (share < MIN_PAGE_AREA || share > MAX_PAGE_AREA) return null;
+
+    // Corners are the points furthest along each diagonal
+    let topLeft = region[0];
+    let topRight = region[0];
+    let bottomRight = region[0];
+    let bottomLeft = region[0];
+    const sum = (index: number): number => (index % width) + Math.floor(index / width);
+    const diff = (index: number): number => (index % width) - Math.floor(index / width);
+    region.forEach(index => {
+        if (sum(index) < sum(topLeft)) topLeft = index;
+        if (sum(index) > sum(bottomRight)) bottomRight = index;
+        if (diff(index) > diff(topRight)) topRight = index;
+        if (diff(index) < diff(bottomLeft)) bottomLeft = index;
+    });
+
+    const toPoint = (index: number): Point => ({
+        x: ((index % width) + 0.5) / width,
+        y: (Math.floor(index / width) + 0.5) / height
+    });
+    const quad: Quad = [toPoint(topLeft), toPoint(topRight), toPoint(bottomRight), toPoint(bottomLeft)];
+
+    // A blob that does not fill its corners is not a page
+    if (!isConvexQuad(quad)) return null;
+    const quadArea = getQuadArea(quad);
+    if (quadArea === 0 || share / quadArea < MIN_QUAD_FILL) return null;
+
+    return quad;
+};
+
+// Scale a frame down to detection size and look for a page in it
+export const detectDocumentInFrame = (
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    canvas: HTMLCanvasElement = document.createElement('canvas')
+): Quad | null => {
+    if (sourceWidth === 0 || sourceHeight === 0) return null;
+
+    const scale = Math.min(1, DETECTION_SIZE / Math.max(sourceWidth, sourceHeight));
+    canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+    canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return detectDocument(context.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+// Projective transform taking the unit square onto the quad (Heckbert's square-to-quad mapping)
+const getSquareToQuad = (quad: Quad) => {
+    const [p0, p1, p2, p3] = quad;
+    const sx = p0.x - p1.x + p2.x - p3.x;
+    const sy = p0.y - p1.y + p2.y - p3.y;
+    let g = 0;
+    let h = 0;
+    if (sx !== 0 || sy !== 0) {
+        const dx1 = p1.x - p2.x;
+        const dx2 = p3.x - p2.x;
+        const dy1 = p1.y - p2.y;
+        const dy2 = p3.y - p2.y;
+        const denominator = dx1 * dy2 - dx2 * dy1;
+        g = (sx * dy2 - dx2 * sy) / denominator;
+        h = (dx1 * sy - sx * dy1) / denominator;
+    }
+    const a = p1.x - p0.x + g * p1.x;
+    const b = p3.x - p0.x + h * p3.x;
+    const d = p1.y - p0.y + g * p1.y;
+    const e = p3.y - p0.y + h * p3.y;
+
+    return (u: number, v: number): Point => {
+        const w = g * u + h * v + 1;
+        return {
+            x: (a * u + b * v + p0.x) / w,
+            y: (d * u + e * v + p0.y) / w
+        };
+    };
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Size of the flattened page in pixels, from the longer of each pair of opposite edges
+export const getFlattenedSize = (quad: Quad, sourceWidth: number, sourceHeight: number): { width: number; height: number } => {
+    const toPixels = (point: Point): Point => ({ x: point.x * sourceWidth, y: point.y * sourceHeight });
+    const [topLeft, topRight, bottomRight, bottomLeft] = quad.map(toPixels);
+    const width = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+    const height = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+    const scale = Math.min(1, MAX_OUTPUT_SIZE / Math.max(width, height));
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale))
+    };
+};
+
+// Map the quad onto a flat rectangle with bilinear sampling
+const warpPerspective = (source: ImageData, quad: Quad, width: number, height: number): ImageData => {
+    const output = new ImageData(width, height);
+    const map = getSquareToQuad(quad);
+    const { data: src, width: srcWidth, height: srcHeight } = source;
+    const out = output.data;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const point = map((x + 0.5) / width, (y + 0.5) / height);
+            const sx = clamp(point.x * srcWidth - 0.5, 0, srcWidth - 1);
+            const sy = clamp(point.y * srcHeight - 0.5, 0, srcHeight - 1);
+            const x0 = Math.floor(sx);
+            const y0 = Math.floor(sy);
+            const x1 = Math.min(x0 + 1, srcWidth - 1);
+            const y1 = Math.min(y0 + 1, srcHeight - 1);
+            const fx = sx - x0;
+            const fy = sy - y0;
+
+            const i00 = (y0 * srcWidth + x0) * 4;
+            const i10 = (y0 * srcWidth + x1) * 4;
+            const i01 = (y1 * srcWidth + x0) * 4;
+            const i11 = (y1 * srcWidth + x1) * 4;
+            const target = (y * width + x) * 4;
+            for (let channel = 0; channel < 3; channel++) {
+                const top = src[i00 + channel] * (1 - fx) + src[i10 + channel] * fx;
+                const bottom = src[i01 + channel] * (1 - fx) + src[i11 + channel] * fx;
+                out[target + channel] = top * (1 - fy) + bottom * fy;
+            }
+            out[target + 3] = 255;
+        }
+    }
+    return output;
+};
+
+// Grayscale with the darkest and lightest 1% stretched to black and white
+const applyGrayscale = (image: ImageData): void => {
+    const { data, width, height } = image;
+    const pixelCount = width * height;
+    const gray = toGrayscale(data, pixelCount);
+
+    const histogram = new Array<number>(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    const clip = pixelCount * 0.01;
+    let low = 0;
+    let high = 255;
+    for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+    for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+    const range = Math.max(1, high - low);
+
+    for (let i = 0; i < pixelCount; i++) {
+        const value = clamp(((gray[i] - low) / range) * 255, 0, 255);
+        data[i * 4] = value;
+        data[i * 4 + 1] = value;
+        data[i * 4 + 2] = value;
+    }
+};
+
+// Adaptive threshold against the local mean, so shadows across the page do not turn into black patches
+const applyThreshold = (image: ImageData): void => {
+    const { data, width, height } = image;
+    const pixelCount = width * height;
+    const gray = toGrayscale(data, pixelCount);
+
+    // Integral image for constant time window sums
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += gray[y * width + x];
+            integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+        }
+    }
+
+    const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+    for (let y = 0; y < height; y++) {
+        const top = Math.max(0, y - radius);
+        const bottom = Math.min(height, y + radius + 1);
+        for (let x = 0; x < width; x++) {
+            const left = Math.max(0, x - radius);
+            const right = Math.min(width, x + radius + 1);
+            const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+                - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+            const mean = sum / ((bottom - top) * (right - left));
+            const value = gray[y * width + x] < mean * (1 - THRESHOLD_OFFSET) ? 0 : 255;
+            const index = (y * width + x) * 4;
+            data[index] = value;
+            data[index + 1] = value;
+            data[index + 2] = value;
+        }
+    }
+};
+
+// Flatten the page inside the quad and clean it up, returning a canvas ready to encode
+export const flattenDocument = (
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    quad: Quad,
+    enhancement: DocumentEnhancement = 'color'
+): HTMLCanvasElement => {
+    const sourceCanvas = document.createElement('canvas');
+    sourceCanvas.width = sourceWidth;
+    sourceCanvas.height = sourceHeight;
+    const sourceContext = sourceCanvas.getContext('2d', { willReadFrequently: true });
+    if (!sourceContext) throw new Error('Canvas not supported');
+    sourceContext.drawImage(source, 0, 0, sourceWidth, sourceHeight);
+
+    const { width, height } = getFlattenedSize(quad, sourceWidth, sourceHeight);
+    const flattened = warpPerspective(sourceContext.getImageData(0, 0, sourceWidth, sourceHeight), quad, width, height);
+    if (enhancement === 'grayscale') {
+        applyGrayscale(flattened);
+    } else if (enhancement === 'blackwhite') {
+        applyThreshold(flattened);
+    }
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const context = output.getContext('2d');
+    if (!context) throw new Error('Canvas not supported');
+    context.putImageData(flattened, 0, 0);
+    return output;
+};
+
+// How the camera's document mode hands scans to the file list
+export interface DocumentScanOptions {
+    output?: 'image' | 'pdf';             // one JPEG per page, or every page in one PDF
+    enhancement?: DocumentEnhancement;    // preselected clean-up, users can change it per page
+    maxPages?: number;
+}
+
+const getTimestamp = (): string => new Date().toISOString().replace(/[:.]/g, '-');
+
+// Encode a flattened page as a JPEG file
+export const createScannedPage = (canvas: HTMLCanvasElement, pageNumber: number): Promise<ScannedPage> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) {
+                reject(new Error('Failed to encode the page'));
+                return;
+            }
+            resolve({
+                file: new File([blob], `scan-${getTimestamp()}-${pageNumber}.jpg`, { type: 'image/jpeg' }),
+                width: canvas.width,
+                height: canvas.height
+            });
+        }, 'image/jpeg', 0.9);
+    });
+
+// Put scanned pages into a single PDF, in order
+export const createScanPdf = async (pages: ScannedPage[]): Promise<File> => {
+    const pdfPages = await Promise.all(pages.map(async ({ file, width, height }) => ({
+        data: new Uint8Array(await file.arrayBuffer()),
+        width,
+        height
+    })));
+    return new File([createImagePdf(pdfPages)], `scan-${getTimestamp()}.pdf`, { type: 'application/pdf' });
+};
@@ -0,0 +1,71 @@
+// Collect files from drops and pastes, walking dropped folders recursively
+
+// Hidden files such as .DS_Store come along with folders but are never wanted
+const isHiddenName = (name: string): boolean => name.startsWith('.');
+
+// Files picked through a folder input, minus the hidden ones
+export const getVisibleFiles = (files: FileList): File[] => Array.from(files).filter(file => !isHiddenName(file.name));
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+    new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns at most ~100 entries per call, keep reading until it returns none
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    let batch: FileSystemEntry[];
+    do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        entries.push(...batch);
+    } while (batch.length > 0);
+    return entries;
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (isHiddenName(entry.name)) return [];
+
+    if (entry.isFile) {
+        return [await readEntryFile(entry as FileSystemFileEntry)];
+    }
+    if (entry.isDirectory) {
+        const children = await readDirectory(entry as FileSystemDirectoryEntry);
+        const nested = await Promise.all(children.map(collectEntry));
+        return nested.flat();
+    }
+    return [];
+};
+
+// Files in a drop, including the contents of dropped folders
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    // Entries have to be taken synchronously, the DataTransfer is emptied once the event returns
+    const droppedFiles = Array.from(dataTransfer.files);
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.() ?? null);
+
+    if (entries.length === 0 || entries.some(entry => entry === null)) {
+        return droppedFiles;
+    }
+
+    try {
+        const files = await Promise.all((entries as FileSystemEntry[]).map(collectEntry));
+        return files.flat();
+    } catch (error) {
+        console.warn('Unable to read dropped folders, using the top level files only', error);
+        return droppedFiles;
+    }
+};
+
+// Files on the clipboard, screenshots get a unique name instead of the generic `image.png`
+export const getPastedFiles = (clipboardData: DataTransfer): File[] => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return Array.from(clipboardData.files).map((file, index) => {
+        if (!/^image\.\w+$/.test(file.name)) return file;
+        const extension = file.name.split('.').pop();
+        const suffix = index > 0 ? `-${index + 1}` : '';
+        return new File([file], `pasted-image-${timestamp}${suffix}.${extension}`, {
+            type: file.type,
+            lastModified: file.lastModified
+        });
+    });
+};
@@ -0,0 +1,15 @@
+// Content hashing for duplicate detection and upload integrity checks
+
+// Web Crypto cannot hash incrementally, so larger files (mostly videos) are not read into memory for it
+export const MAX_HASHED_FILE_SIZE = 64 * 1024 * 1024; // 64MB
+
+// Hex encoded SHA-256 of the file contents, null when Web Crypto is unavailable (insecure origins)
+// or the file is larger than MAX_HASHED_FILE_SIZE
+export const hashFile = async (file: Blob): Promise<string | null> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle || file.size > MAX_HASHED_FILE_SIZE) return null;
+
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+};
@@ -0,0 +1,85 @@
+// File name templates for captured photos and naming rules for picked files
+
+// Values a template can use, as {token}; {seq} also takes a width, e.g. {seq:3} for 001
+export interface FileNameTokens {
+    date?: Date;       // {date} YYYY-MM-DD, {time} HH-mm-ss, {timestamp} full ISO time
+    sequence?: number; // {seq}
+    device?: string;   // {device}, the camera label
+    prefix?: string;   // {prefix}
+    name?: string;     // {name}, the original name without extension
+}
+
+// A template string, or a function returning the new name (null/undefined keeps the file's own name)
+export type FileNamingRule = string | ((file: File, sequence: number) => string | null | undefined);
+
+export const DEFAULT_CAPTURE_TEMPLATE = 'camera-capture-{timestamp}';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp'
+};
+
+const pad = (value: number, width = 2): string => value.toString().padStart(width, '0');
+
+// Characters that are invalid or awkward in file names on common systems and object stores
+const sanitize = (value: string): string =>
+    value
+        .replace(/[\\/:*?"<>|\p{Cc}]+/gu, '-')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+// Split "photo.final.jpg" into ["photo.final", "jpg"]; names without a dot have no extension
+export const splitFileName = (name: string): [string, string] => {
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? [name.slice(0, dot), name.slice(dot + 1)] : [name, ''];
+};
+
+export const getExtensionForType = (type: string): string => EXTENSIONS[type] ?? type.split('/')[1] ?? 'bin';
+
+// Fill in a template; the result has no extension
+export const formatFileName = (template: string, tokens: FileNameTokens = {}): string => {
+    const date = tokens.date ?? new Date();
+    const values: Record<string, string> = {
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`,
+        timestamp: date.toISOString().replace(/[:.]/g, '-'),
+        device: tokens.device ?? '',
+        prefix: tokens.prefix ?? '',
+        name: tokens.name ?? ''
+    };
+
+    const filled = template.replace(/\{(\w+)(?::(\d+))?\}/g, (match, token: string, width?: string) => {
+        if (token === 'seq') return pad(tokens.sequence ?? 1, width ? Number(width) : 1);
+        return token in values ? sanitize(values[token]) : match;
+    });
+
+    // Empty tokens leave doubled or dangling separators behind, e.g. "-photo" without a prefix
+    return sanitize(filled)
+        .replace(/([-_ ])\1+/g, '$1')
+        .replace(/^[-_ .]+|[-_ .]+$/g, '');
+};
+
+// Apply a rename; the file keeps its extension, so the name always matches the contents
+export const withFileName = (file: File, name: string): File => {
+    const [, extension] = splitFileName(file.name);
+    const cleaned = sanitize(name);
+    const hasExtension = !extension || cleaned.toLowerCase().endsWith(`.${extension.toLowerCase()}`);
+    const fullName = hasExtension ? cleaned : `${cleaned}.${extension}`;
+    if (!cleaned || fullName === file.name) return file;
+
+    return new File([file], fullName, { type: file.type, lastModified: file.lastModified });
+};
+
+// Name a picked file by the host's rule
+export const applyNamingRule = (file: File, rule: FileNamingRule, sequence: number, prefix?: string): File => {
+    const name = typeof rule === 'function'
+        ? rule(file, sequence)
+        : formatFileName(rule, {
+            date: new Date(file.lastModified),
+            sequence,
+            prefix,
+            name: splitFileName(file.name)[0]
+        });
+    return name ? withFileName(file, name) : file;
+};
@@ -0,0 +1,117 @@
+// IndexedDB storage for files that have not been uploaded yet, so a reload or tab eviction does not lose them
+import type { ImageMetadata } from '@/lib/image-metadata';
+
+const DB_NAME = 'camera-uploader';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries'; // file details and list position, small and rewritten often
+const BLOB_STORE = 'blobs';    // file contents, only written when a file is added or replaced
+const KEY_INDEX = 'persistKey';
+
+export interface PersistedFileEntry {
+    id: string;
+    name: string;
+    type: string;
+    lastModified: number;
+    order: number;
+    originalSize?: number;
+    metadata?: ImageMetadata;
+    hash?: string;
+    isCover?: boolean;
+}
+
+interface EntryRecord extends PersistedFileEntry {
+    persistKey: string;
+}
+
+export interface PersistedFile {
+    entry: PersistedFileEntry;
+    blob: Blob;
+}
+
+type RecordKey = [string, string]; // [persistKey, id]
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isPersistenceSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const database = request.result;
+                const entries = database.createObjectStore(ENTRY_STORE, { keyPath: ['persistKey', 'id'] });
+                entries.createIndex(KEY_INDEX, 'persistKey');
+                database.createObjectStore(BLOB_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch(error => {
+            // Let the next call try again, e.g. after the user closes another tab blocking an upgrade
+            databasePromise = null;
+            throw error;
+        });
+    }
+    return databasePromise;
+};
+
+// Files stored under a key, in list order; entries whose contents are missing are skipped
+export const loadPersistedFiles = async (persistKey: string): Promise<PersistedFile[]> => {
+    if (!isPersistenceSupported()) return [];
+
+    const database = await openDatabase();
+    const transaction = database.transaction([ENTRY_STORE, BLOB_STORE], 'readonly');
+    const entries = await promisifyRequest<EntryRecord[]>(
+        transaction.objectStore(ENTRY_STORE).index(KEY_INDEX).getAll(persistKey)
+    );
+    const blobs = await Promise.all(entries.map(entry => promisifyRequest<Blob | undefined>(
+        transaction.objectStore(BLOB_STORE).get([persistKey, entry.id])
+    )));
+
+    return entries
+        .map(({ persistKey: _persistKey, ...entry }, index) => ({ entry, blob: blobs[index] }))
+        .filter((file): file is PersistedFile => file.blob instanceof Blob)
+        .sort((a, b) => a.entry.order - b.entry.order);
+};
+
+// Replace what is stored under a key with `entries`; contents are written only for the ids in `blobs`
+export const savePersistedFiles = async (
+    persistKey: string,
+    entries: PersistedFileEntry[],
+    blobs: Map<string, Blob>
+): Promise<void> => {
+    if (!isPersistenceSupported()) return;
+
+    const database = await openDatabase();
+    const transaction = database.transaction([ENTRY_STORE, BLOB_STORE], 'readwrite');
+    const entryStore = transaction.objectStore(ENTRY_STORE);
+    const blobStore = transaction.objectStore(BLOB_STORE);
+
+    // Drop files that left the list
+    const keep = new Set(entries.map(entry => entry.id));
+    const storedKeys = await promisifyRequest(entryStore.index(KEY_INDEX).getAllKeys(persistKey)) as RecordKey[];
+    storedKeys.forEach(key => {
+        if (!keep.has(key[1])) {
+            entryStore.delete(key);
+            blobStore.delete(key);
+        }
+    });
+
+    entries.forEach(entry => entryStore.put({ ...entry, persistKey } satisfies EntryRecord));
+    blobs.forEach((blob, id) => blobStore.put(blob, [persistKey, id]));
+
+    await transactionDone(transaction);
+};
+
+export const clearPersistedFiles = (persistKey: string): Promise<void> => savePersistedFiles(persistKey, [], new Map());
@@ -0,0 +1,16 @@
+// Helpers for submitting the uploader's files with react-hook-form, fetch or server actions
+import type { FileObject } from '@/hooks/use-camera-uploader';
+
+// Add each selected file under `name`, e.g. in a react-hook-form submit handler
+export const appendFiles = (formData: FormData, name: string, files: FileObject[]): FormData => {
+    files.forEach(f => formData.append(name, f.file, f.name));
+    return formData;
+};
+
+// react-hook-form `validate` rule for a FileObject[] field
+export const requireFiles = (message = 'Please add at least one file.') =>
+    (files: FileObject[] | undefined): true | string => (files && files.length > 0) || message;
+
+// Read the files posted under `name`, skipping the empty entry browsers send for an empty input
+export const getFormFiles = (formData: FormData, name: string): File[] =>
+    formData.getAll(name).filter((value): value is File => value instanceof File && value.size > 0);
@@ -0,0 +1,517 @@
+// Message catalog and a small ICU style formatter for every string the uploader shows
+import { formatFileSize, type UploadRejectionCode, type UploadRules } from '@/lib/upload-rules';
+import { ar } from '@/lib/locales/ar';
+import { de } from '@/lib/locales/de';
+
+// Templates use ICU message syntax: `{name}`, `{count, plural, one {# file} other {# files}}`,
+// `{kind, select, photo {...} other {...}}` and `{value, number}`
+export interface UploaderMessages {
+    // Drop zone
+    dropzoneTitle: string;
+    dropzoneAccepts: string;       // {types}, {maxSize}
+    dropzoneLimit: string;         // {maxFiles}, {count}
+    pasteZoneHint: string;
+    pasteDocumentHint: string;
+    processingFiles: string;       // {count}
+    restoringFiles: string;
+    chooseFiles: string;
+    chooseFolder: string;
+    takePhoto: string;
+    requiredError: string;
+
+    // Rejections
+    rejectedSummary: string;       // {count}
+    rejectInvalidType: string;     // {name}
+    rejectTooLarge: string;        // {name}, {size}, {maxSize}
+    rejectTooSmall: string;        // {name}, {size}, {minSize}
+    rejectTooMany: string;         // {name}, {maxFiles}
+    rejectDuplicate: string;       // {name}
+    rejectInvalid: string;         // {name}
+    rejectMetadata: string;        // {name}
+    rejectValidatorFailed: string; // {name}
+    dismiss: string;
+
+    // File list
+    selectedFiles: string;         // {count}
+    preview: string;
+    previewFile: string;           // {name}
+    cover: string;
+    coverImage: string;
+    setAsCover: string;
+    reorderFile: string;           // {name}, {position}, {total}
+    reorderHint: string;
+    editImage: string;
+    remove: string;
+    statusQueued: string;
+    statusUploaded: string;
+    statusFailed: string;
+    cancelUpload: string;
+    retryUpload: string;
+
+    // Uploading
+    uploadButton: string;          // {count}
+    uploading: string;
+    uploadSucceeded: string;       // {count}
+    uploadPartiallyFailed: string; // {failed}, {total}
+    uploadError: string;
+    uploadFailed: string;
+    uploadCancelled: string;
+    readyToUpload: string;         // {count}
+    checksumMismatch: string;
+
+    // Offline queue
+    queueOffline: string;          // {count}
+    queueOfflineIdle: string;
+    queueRetrying: string;         // {attempt}, {time}
+    queueRetryingWithError: string; // {attempt}, {time}, {error}
+    queueUploading: string;
+    queueStarted: string;
+    queueFailed: string;           // {count}
+    queueDone: string;
+    retryNow: string;
+
+    // Camera
+    close: string;
+    cancel: string;
+    recordVideo: string;
+    photoMode: string;
+    videoMode: string;
+    cameraSelect: string;
+    cameraFallbackLabel: string;   // {index}
+    resolutionSelect: string;
+    flipCamera: string;
+    startingCamera: string;
+    capturePhoto: string;
+    recordWithAudio: string;
+    recordWithoutAudio: string;
+    startRecording: string;
+    stopRecording: string;
+    useClip: string;
+    retake: string;
+    cameraUnsupported: string;
+    cameraDenied: string;
+    cameraNotFound: string;
+    cameraNotSupportedOnDevice: string;
+    cameraNoSettings: string;
+    cameraError: string;           // {message}
+    cameraUnavailable: string;
+    cameraSwitchFailed: string;
+    cameraNotReady: string;
+    captureUnsupported: string;
+    captureFailed: string;
+    recordingUnsupported: string;
+    microphoneUnavailable: string;
+    recordingStartFailed: string;
+    recordingFailed: string;
+
+    // Image editor
+    editPhoto: string;
+    editImageTitle: string;
+    useOriginal: string;
+    loadingImage: string;
+    cropFree: string;
+    rotateLeft: string;
+    rotateRight: string;
+    flipHorizontal: string;
+    flipVertical: string;
+    reset: string;
+    apply: string;
+    saving: string;
+    editorOpenFailed: string;
+    editorUnsupported: string;
+    editorSaveFailed: string;
+
+    // Lightbox
+    zoomIn: string;
+    zoomOut: string;
+    previous: string;
+    next: string;
+    noPreview: string;
+    lightboxPosition: string;      // {index}, {total}
+
+    // Document scanning
+    scanMode: string;
+    scanDocument: string;
+    pageFound: string;
+    lookingForPage: string;
+    pagesScanned: string;          // {count}
+    adjustPage: string;            // {page}
+    scanCorner: string;            // {corner}: 'topLeft', 'topRight', 'bottomRight' or 'bottomLeft'
+    scanCornerHint: string;
+    enhancement: string;
+    enhanceColor: string;
+    enhanceGrayscale: string;
+    enhanceBlackWhite: string;
+    addPage: string;
+    finishScan: string;            // {count}
+    scanInvalidCorners: string;
+    scanFailed: string;
+    scanPdfFailed: string;
+
+    // File names
+    renameFile: string;
+    newFileName: string;           // {name}
+    namePrefix: string;
+
+    // Multi-shot session
+    shotsTaken: string;            // {count}
+    shotsRemaining: string;        // {count}
+    reviewShot: string;            // {index}
+    discardShot: string;           // {index}
+    backToCamera: string;
+    selfTimer: string;             // {seconds}, 0 when off
+    timerSeconds: string;          // {seconds}
+    cancelTimer: string;
+    burst: string;                 // {count}
+    useShots: string;              // {count}
+
+    // Barcode scanning
+    barcodeMode: string;
+    scanBarcode: string;
+    lookingForCode: string;
+    codeDetected: string;          // {format}, {value}
+    barcodeFormatsUnsupported: string; // {formats}
+
+    // Screen reader labels and announcements
+    dropzoneLabel: string;
+    dropzoneKeyboardHint: string;
+    cameraPreview: string;
+    shutterHint: string;           // {mode}: the capture mode, 'video' or anything else
+    cropArea: string;
+    uploadProgress: string;        // {name}
+    announceFilesAdded: string;    // {count}
+    announceFileRemoved: string;   // {name}
+    announceFilesCleared: string;
+}
+
+export type MessageKey = keyof UploaderMessages;
+export type MessageValues = Record<string, string | number>;
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface I18nOptions {
+    locale?: string;                     // BCP 47 tag, picks the bundled catalog and number/plural rules
+    messages?: Partial<UploaderMessages>; // overrides on top of the bundled catalog
+}
+
+export interface Translator {
+    locale: string;
+    dir: TextDirection;
+    t: (key: MessageKey, values?: MessageValues) => string;
+    formatNumber: (value: number) => string;
+    formatPercent: (ratio: number) => string; // 0..1
+    formatFileSize: (bytes: number) => string;
+}
+
+export const en: UploaderMessages = {
+    dropzoneTitle: 'Drop files here or click to upload',
+    dropzoneAccepts: 'Supports {types} up to {maxSize}',
+    dropzoneLimit: 'Maximum {maxFiles, plural, one {# file} other {# files}} ({count}/{maxFiles} uploaded)',
+    pasteZoneHint: 'Click here and paste to add images from the clipboard',
+    pasteDocumentHint: 'Paste anywhere to add images from the clipboard',
+    processingFiles: 'Processing {count, plural, one {# file} other {# files}}...',
+    restoringFiles: 'Restoring saved files...',
+    chooseFiles: 'Choose Files',
+    chooseFolder: 'Choose Folder',
+    takePhoto: 'Take Photo',
+    requiredError: 'Please add at least one file.',
+
+    rejectedSummary: '{count, plural, one {# file was} other {# files were}} not added',
+    rejectInvalidType: '{name} is not a supported file type',
+    rejectTooLarge: '{name} is too large ({size}). Maximum size is {maxSize}',
+    rejectTooSmall: '{name} is too small ({size}). Minimum size is {minSize}',
+    rejectTooMany: '{name} was not added. Maximum of {maxFiles, plural, one {# file} other {# files}} reached',
+    rejectDuplicate: '{name} has already been added',
+    rejectInvalid: '{name} is not valid',
+    rejectMetadata: '{name} was not added because its location and device data could not be removed',
+    rejectValidatorFailed: '{name} could not be validated',
+    dismiss: 'Dismiss',
+
+    selectedFiles: 'Selected Files ({count})',
+    preview: 'Preview',
+    previewFile: 'Preview {name}',
+    cover: 'Cover',
+    coverImage: 'Cover image',
+    setAsCover: 'Set as cover',
+    reorderFile: 'Reorder {name}, position {position} of {total}',
+    reorderHint: 'Drag or use arrow keys to reorder',
+    editImage: 'Edit image',
+    remove: 'Remove',
+    statusQueued: 'Queued',
+    statusUploaded: 'Uploaded',
+    statusFailed: 'Failed',
+    cancelUpload: 'Cancel upload',
+    retryUpload: 'Retry upload',
+
+    uploadButton: 'Upload {count, plural, one {# file} other {# files}}',
+    uploading: 'Uploading...',
+    uploadSucceeded: 'Uploaded {count, plural, one {# file} other {# files}}',
+    uploadPartiallyFailed: '{failed} of {total, plural, one {# file} other {# files}} failed to upload.',
+    uploadError: 'Upload failed. Please try again.',
+    uploadFailed: 'Upload failed',
+    uploadCancelled: 'Upload cancelled',
+    readyToUpload: 'Ready to upload {count, plural, one {# file} other {# files}}',
+    checksumMismatch: 'Checksum mismatch, the file was corrupted in transit',
+
+    queueOffline: 'Offline. {count, plural, one {# file} other {# files}} will upload when the connection returns',
+    queueOfflineIdle: 'Offline. Uploads will be queued',
+    queueRetrying: 'Attempt {attempt} failed. Retrying at {time}',
+    queueRetryingWithError: 'Attempt {attempt} failed ({error}). Retrying at {time}',
+    queueUploading: 'Uploading queued files...',
+    queueStarted: 'You are offline. Files will upload when the connection returns.',
+    queueFailed: '{count, plural, one {# file} other {# files}} could not be uploaded.',
+    queueDone: 'All queued files uploaded',
+    retryNow: 'Retry now',
+
+    close: 'Close',
+    cancel: 'Cancel',
+    recordVideo: 'Record Video',
+    photoMode: 'Photo',
+    videoMode: 'Video',
+    cameraSelect: 'Camera',
+    cameraFallbackLabel: 'Camera {index}',
+    resolutionSelect: 'Resolution',
+    flipCamera: 'Switch between front and back camera',
+    startingCamera: 'Starting camera...',
+    capturePhoto: 'Capture Photo',
+    recordWithAudio: 'Record with audio',
+    recordWithoutAudio: 'Record without audio',
+    startRecording: 'Start Recording',
+    stopRecording: 'Stop Recording',
+    useClip: 'Use Clip',
+    retake: 'Retake',
+    cameraUnsupported: 'Camera access is not supported in this browser.',
+    cameraDenied: 'Camera access denied. Please allow camera permissions and try again.',
+    cameraNotFound: 'No camera found on this device.',
+    cameraNotSupportedOnDevice: 'Camera is not supported on this device.',
+    cameraNoSettings: 'Unable to access camera with any settings.',
+    cameraError: 'Camera error: {message}',
+    cameraUnavailable: 'Unable to access camera. Please check permissions.',
+    cameraSwitchFailed: 'Unable to switch to that camera.',
+    cameraNotReady: 'Camera not ready yet. Please wait a moment and try again.',
+    captureUnsupported: 'Unable to capture photo. Canvas not supported.',
+    captureFailed: 'Failed to capture photo. Please try again.',
+    recordingUnsupported: 'Video recording is not supported in this browser.',
+    microphoneUnavailable: 'Microphone unavailable. Recording without audio.',
+    recordingStartFailed: 'Unable to start recording on this device.',
+    recordingFailed: 'Recording failed. Please try again.',
+
+    editPhoto: 'Edit Photo',
+    editImageTitle: 'Edit Image',
+    useOriginal: 'Use Original',
+    loadingImage: 'Loading image...',
+    cropFree: 'Free',
+    rotateLeft: 'Rotate left',
+    rotateRight: 'Rotate right',
+    flipHorizontal: 'Flip horizontally',
+    flipVertical: 'Flip vertically',
+    reset: 'Reset',
+    apply: 'Apply',
+    saving: 'Saving...',
+    editorOpenFailed: 'Unable to open this image for editing.',
+    editorUnsupported: 'Unable to save image. Canvas not supported.',
+    editorSaveFailed: 'Failed to save image. Please try again.',
+
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    previous: 'Previous',
+    next: 'Next',
+    noPreview: 'No preview available',
+    lightboxPosition: '{index} / {total}',
+
+    scanMode: 'Document',
+    scanDocument: 'Scan Document',
+    pageFound: 'Page found',
+    lookingForPage: 'Looking for a page...',
+    pagesScanned: '{count, plural, one {# page} other {# pages}} scanned',
+    adjustPage: 'Adjust page {page}',
+    scanCorner: '{corner, select, topLeft {Top left corner} topRight {Top right corner} bottomRight {Bottom right corner} other {Bottom left corner}}',
+    scanCornerHint: 'Drag the corners onto the edges of the page, or move a focused corner with the arrow keys',
+    enhancement: 'Enhancement',
+    enhanceColor: 'Color',
+    enhanceGrayscale: 'Grayscale',
+    enhanceBlackWhite: 'Black & white',
+    addPage: 'Add Page',
+    finishScan: 'Done ({count, plural, one {# page} other {# pages}})',
+    scanInvalidCorners: 'The corners have to outline a four-sided page.',
+    scanFailed: 'Unable to process the scan. Please try again.',
+    scanPdfFailed: 'Unable to create the PDF, the pages were added as images instead.',
+
+    renameFile: 'Rename',
+    newFileName: 'New name for {name}',
+    namePrefix: 'Name prefix',
+
+    shotsTaken: '{count, plural, one {# shot} other {# shots}} taken',
+    shotsRemaining: '{count, plural, =0 {No more photos can be added} one {# more photo can be added} other {# more photos can be added}}',
+    reviewShot: 'Shot {index}',
+    discardShot: 'Discard shot {index}',
+    backToCamera: 'Back to camera',
+    selfTimer: '{seconds, plural, =0 {Self-timer off} other {Self-timer: # seconds}}',
+    timerSeconds: '{seconds}s',
+    cancelTimer: 'Cancel timer',
+    burst: 'Burst ({count})',
+    useShots: 'Done ({count, plural, one {# photo} other {# photos}})',
+
+    barcodeMode: 'Barcode',
+    scanBarcode: 'Scan Barcode',
+    lookingForCode: 'Looking for a barcode or QR code...',
+    codeDetected: '{format}: {value}',
+    barcodeFormatsUnsupported: 'This browser cannot read {formats} codes',
+
+    dropzoneLabel: 'File drop zone',
+    dropzoneKeyboardHint: 'Press Enter or Space to choose files',
+    cameraPreview: 'Camera preview',
+    shutterHint: '{mode, select, video {Press Space or Enter to start or stop recording} other {Press Space or Enter to take a photo}}',
+    cropArea: 'Crop area. Arrow keys move it, Shift and the arrow keys resize it',
+    uploadProgress: 'Upload progress of {name}',
+    announceFilesAdded: '{count, plural, one {# file added} other {# files added}}',
+    announceFileRemoved: '{name} removed',
+    announceFilesCleared: 'All files removed'
+};
+
+// Catalogs shipped with the component, looked up by full tag first, then by language
+export const bundledMessages: Record<string, UploaderMessages> = { en, de, ar };
+
+const RTL_LANGUAGES = new Set(['ar', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi']);
+
+const getLanguage = (locale: string): string => locale.toLowerCase().split(/[-_]/)[0];
+
+export const getTextDirection = (locale: string): TextDirection =>
+    RTL_LANGUAGES.has(getLanguage(locale)) ? 'rtl' : 'ltr';
+
+export const getBundledMessages = (locale: string): UploaderMessages =>
+    bundledMessages[locale] ?? bundledMessages[getLanguage(locale)] ?? en;
+
+// Intl objects are costly to build, keep one per locale
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const getNumberFormat = (locale: string, style: 'decimal' | 'percent' = 'decimal'): Intl.NumberFormat => {
+    const cacheKey = `${locale}:${style}`;
+    let format = numberFormats.get(cacheKey);
+    if (!format) {
+        format = new Intl.NumberFormat(locale, { style });
+        numberFormats.set(cacheKey, format);
+    }
+    return format;
+};
+
+const getPluralRules = (locale: string): Intl.PluralRules => {
+    let rules = pluralRules.get(locale);
+    if (!rules) {
+        rules = new Intl.PluralRules(locale);
+        pluralRules.set(locale, rules);
+    }
+    return rules;
+};
+
+// Index of the brace closing the one at `start`, -1 when unbalanced
+const findClosingBrace = (text: string, start: number): number => {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '{') depth++;
+        if (text[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+};
+
+// `one {...} other {...}` into a selector -> branch map
+const parseOptions = (text: string): Map<string, string> => {
+    const options = new Map<string, string>();
+    let i = 0;
+    while (i < text.length) {
+        const open = text.indexOf('{', i);
+        if (open === -1) break;
+        const close = findClosingBrace(text, open);
+        if (close === -1) break;
+        options.set(text.slice(i, open).trim(), text.slice(open + 1, close));
+        i = close + 1;
+    }
+    return options;
+};
+
+const formatArgument = (argument: string, values: MessageValues, locale: string, pound?: string): string => {
+    const [name, type, ...rest] = argument.split(',');
+    const key = name.trim();
+    const value = values[key];
+
+    switch (type?.trim()) {
+        case 'plural': {
+            const count = Number(value);
+            const options = parseOptions(rest.join(','));
+            const branch = options.get(`=${count}`)
+                ?? options.get(getPluralRules(locale).select(count))
+                ?? options.get('other')
+                ?? '';
+            return formatTemplate(branch, values, locale, getNumberFormat(locale).format(count));
+        }
+        case 'select': {
+            const options = parseOptions(rest.join(','));
+            return formatTemplate(options.get(String(value)) ?? options.get('other') ?? '', values, locale, pound);
+        }
+        case 'number':
+            return getNumberFormat(locale).format(Number(value));
+        default:
+            if (value === undefined) return `{${key}}`; // left visible so a missing value is easy to spot
+            return typeof value === 'number' ? getNumberFormat(locale).format(value) : value;
+    }
+};
+
+// `#` inside a plural branch stands for the formatted count
+const formatTemplate = (template: string, values: MessageValues, locale: string, pound?: string): string => {
+    let result = '';
+    let i = 0;
+    while (i < template.length) {
+        const char = template[i];
+        if (char === '{') {
+            const close = findClosingBrace(template, i);
+            if (close === -1) return result + template.slice(i);
+            result += formatArgument(template.slice(i + 1, close), values, locale, pound);
+            i = close + 1;
+        } else {
+            result += char === '#' && pound !== undefined ? pound : char;
+            i++;
+        }
+    }
+    return result;
+};
+
+export const formatMessage = (template: string, values: MessageValues = {}, locale = 'en'): string =>
+    formatTemplate(template, values, locale);
+
+export const createTranslator = ({ locale = 'en', messages }: I18nOptions = {}): Translator => {
+    const catalog = messages ? { ...getBundledMessages(locale), ...messages } : getBundledMessages(locale);
+    return {
+        locale,
+        dir: getTextDirection(locale),
+        t: (key, values) => formatTemplate(catalog[key], values ?? {}, locale),
+        formatNumber: (value) => getNumberFormat(locale).format(value),
+        formatPercent: (ratio) => getNumberFormat(locale, 'percent').format(ratio),
+        formatFileSize: (bytes) => formatFileSize(bytes, locale)
+    };
+};
+
+// English, used by components rendered without a translator
+export const defaultTranslator = createTranslator();
+
+const REJECTION_KEYS: Record<UploadRejectionCode, MessageKey> = {
+    'file-invalid-type': 'rejectInvalidType',
+    'file-too-large': 'rejectTooLarge',
+    'file-too-small': 'rejectTooSmall',
+    'too-many-files': 'rejectTooMany',
+    'duplicate': 'rejectDuplicate',
+    'file-invalid': 'rejectInvalid'
+};
+
+// Translated counterpart of getRejectionMessage
+export const translateRejection = (
+    { t, formatFileSize: formatSize }: Translator,
+    code: UploadRejectionCode,
+    file: { name: string; size: number },
+    { maxFileSize, minFileSize = 0, maxFiles }: UploadRules
+): string => t(REJECTION_KEYS[code], {
+    name: file.name,
+    size: formatSize(file.size),
+    maxSize: formatSize(maxFileSize),
+    minSize: formatSize(minFileSize),
+    maxFiles
+});
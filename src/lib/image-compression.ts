@@ -0,0 +1,95 @@
+// Client API for image compression, backed by a shared Web Worker when OffscreenCanvas is available
+import { encodeImage, type ImageCompressionOptions } from '@/lib/image-processing';
+import type { CompressionRequest, CompressionResponse } from '@/lib/image-compression.worker';
+
+export type { ImageCompressionOptions, ImageOutputType } from '@/lib/image-processing';
+
+// Formats the canvas can decode and are worth re-encoding (animated GIFs and SVGs are left alone)
+const COMPRESSIBLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/bmp'];
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/png': 'png'
+};
+
+let worker: Worker | null = null;
+let workerFailed = false; // set once the worker failed to load or crashed, later images are encoded on the main thread
+let nextRequestId = 0;
+// Requests resolve to null when the worker goes away before answering
+const pendingRequests = new Map<number, { resolve: (blob: Blob | null) => void; reject: (error: Error) => void }>();
+
+const supportsWorkerCompression = (): boolean =>
+    typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// Drop the worker and hand every waiting request back to the main thread
+const failWorker = (reason: string): void => {
+    console.error('Image compression worker failed:', reason);
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+    pendingRequests.forEach(request => request.resolve(null));
+    pendingRequests.clear();
+};
+
+const getWorker = (): Worker => {
+    if (!worker) {
+        worker = new Worker(new URL('./image-compression.worker.ts', import.meta.url), { type: 'module' });
+        // Fired when the script fails to load or throws outside a request
+        worker.addEventListener('error', (event: ErrorEvent) => {
+            event.preventDefault();
+            failWorker(event.message || 'worker error');
+        });
+        worker.addEventListener('messageerror', () => failWorker('a message could not be deserialized'));
+        worker.addEventListener('message', (event: MessageEvent<CompressionResponse>) => {
+            const request = pendingRequests.get(event.data.id);
+            if (!request) return;
+            pendingRequests.delete(event.data.id);
+
+            if ('blob' in event.data) {
+                request.resolve(event.data.blob);
+            } else {
+                request.reject(new Error(event.data.error));
+            }
+        });
+    }
+    return worker;
+};
+
+const compressInWorker = (file: Blob, options: ImageCompressionOptions): Promise<Blob | null> => {
+    return new Promise((resolve, reject) => {
+        const id = nextRequestId++;
+        pendingRequests.set(id, { resolve, reject });
+        try {
+            getWorker().postMessage({ id, file, options } satisfies CompressionRequest);
+        } catch (error) {
+            failWorker(error instanceof Error ? error.message : 'worker could not be started');
+        }
+    });
+};
+
+export const isCompressibleImage = (file: File): boolean => COMPRESSIBLE_TYPES.includes(file.type);
+
+// Swap the file extension to match the encoded type
+export const renameForType = (name: string, type: string): string => {
+    const extension = EXTENSIONS[type];
+    if (!extension) return name;
+    const dotIndex = name.lastIndexOf('.');
+    const baseName = dotIndex > 0 ? name.slice(0, dotIndex) : name;
+    return `${baseName}.${extension}`;
+};
+
+// Downsize and re-encode an image. Returns the input file untouched when nothing was gained.
+export const compressImage = async (file: File, options: ImageCompressionOptions): Promise<File> => {
+    const blob = (supportsWorkerCompression() && !workerFailed ? await compressInWorker(file, options) : null)
+        ?? await encodeImage(file, options);
+
+    // The worker hands back a copy of the source when compression did not help
+    if (blob.size === 0 || (blob.size === file.size && blob.type === file.type)) return file;
+
+    return new File([blob], renameForType(file.name, blob.type), {
+        type: blob.type,
+        lastModified: file.lastModified
+    });
+};
@@ -0,0 +1,24 @@
+import { encodeImage, type ImageCompressionOptions } from '@/lib/image-processing';
+
+export interface CompressionRequest {
+    id: number;
+    file: Blob;
+    options: ImageCompressionOptions;
+}
+
+export type CompressionResponse =
+    | { id: number; blob: Blob }
+    | { id: number; error: string };
+
+self.addEventListener('message', async (event: MessageEvent<CompressionRequest>) => {
+    const { id, file, options } = event.data;
+    try {
+        const blob = await encodeImage(file, options);
+        self.postMessage({ id, blob } satisfies CompressionResponse);
+    } catch (error) {
+        self.postMessage({
+            id,
+            error: error instanceof Error ? error.message : 'Image compression failed'
+        } satisfies CompressionResponse);
+    }
+});
@@ -0,0 +1,325 @@
+// JPEG EXIF reading and metadata stripping for files picked from the device
+import { renameForType } from '@/lib/image-compression';
+import { renderToBlob } from '@/lib/image-processing';
+
+export interface ImageMetadata {
+    dateTaken?: string;   // local time as recorded by the camera, YYYY-MM-DDTHH:mm:ss
+    cameraMake?: string;
+    cameraModel?: string;
+    width?: number;       // display dimensions, after orientation is applied
+    height?: number;
+    orientation?: number; // EXIF orientation 1-8
+    hasGps: boolean;      // coordinates are never copied out of the file
+}
+
+export interface MetadataOptions {
+    stripMetadata?: boolean;       // remove EXIF/XMP/IPTC (GPS, device info) before upload
+    normalizeOrientation?: boolean; // re-encode sideways JPEGs upright, their metadata is carried over unless stripped
+}
+
+const HEADER_BYTES = 256 * 1024; // EXIF and the frame header live at the start of the file
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_PIXEL_X = 0xa002;
+const TAG_PIXEL_Y = 0xa003;
+
+const MARKER_SOS = 0xda;
+const MARKER_EOI = 0xd9;
+const MARKER_APP1 = 0xe1; // EXIF and XMP
+const MARKER_APP13 = 0xed; // IPTC
+const MARKER_APP0 = 0xe0; // JFIF header, which canvas output starts with
+const SOF_MARKERS = [0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf];
+
+// PNG chunks and WebP chunks that hold EXIF, XMP or free text
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+const WEBP_METADATA_FLAGS = 0x0c; // EXIF and XMP bits of the VP8X header
+
+// Formats that can carry EXIF but have no lossless stripper here, they are re-encoded when stripping
+const REENCODED_TYPES = ['image/heic', 'image/heif', 'image/avif', 'image/tiff'];
+const REENCODED_EXTENSIONS = ['.heic', '.heif', '.avif', '.tif', '.tiff'];
+
+type IfdEntries = Map<number, string | number>;
+
+const isJpeg = (view: DataView): boolean => view.byteLength > 4 && view.getUint16(0) === 0xffd8;
+
+// Read one IFD into a tag -> value map (ASCII, SHORT and LONG values only)
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean): IfdEntries => {
+    const entries: IfdEntries = new Map();
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > view.byteLength) return entries;
+
+    const count = view.getUint16(start, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const valueCount = view.getUint32(entry + 4, littleEndian);
+
+        if (type === 2) {
+            const valueStart = valueCount > 4 ? tiffStart + view.getUint32(entry + 8, littleEndian) : entry + 8;
+            let text = '';
+            for (let j = 0; j < valueCount - 1 && valueStart + j < view.byteLength; j++) {
+                text += String.fromCharCode(view.getUint8(valueStart + j));
+            }
+            entries.set(tag, text.trim());
+        } else if (type === 3) {
+            entries.set(tag, view.getUint16(entry + 8, littleEndian));
+        } else if (type === 4) {
+            entries.set(tag, view.getUint32(entry + 8, littleEndian));
+        }
+    }
+    return entries;
+};
+
+// "2024:05:01 13:45:10" -> "2024-05-01T13:45:10"
+const formatExifDate = (value: string | number | undefined): string | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+const readExif = (view: DataView, tiffStart: number, metadata: ImageMetadata): void => {
+    const byteOrder = view.getUint16(tiffStart);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return;
+    const littleEndian = byteOrder === 0x4949;
+    if (view.getUint16(tiffStart + 2, littleEndian) !== 42) return;
+
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+    const exifOffset = ifd0.get(TAG_EXIF_IFD);
+    const exifIfd = typeof exifOffset === 'number' ? readIfd(view, tiffStart, exifOffset, littleEndian) : new Map();
+
+    const orientation = ifd0.get(TAG_ORIENTATION);
+    if (typeof orientation === 'number' && orientation >= 1 && orientation <= 8) {
+        metadata.orientation = orientation;
+    }
+
+    metadata.cameraMake = (ifd0.get(TAG_MAKE) as string | undefined) || undefined;
+    metadata.cameraModel = (ifd0.get(TAG_MODEL) as string | undefined) || undefined;
+    metadata.dateTaken = formatExifDate(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? formatExifDate(ifd0.get(TAG_DATE_TIME));
+    metadata.hasGps = ifd0.has(TAG_GPS_IFD);
+
+    const pixelX = exifIfd.get(TAG_PIXEL_X);
+    const pixelY = exifIfd.get(TAG_PIXEL_Y);
+    if (typeof pixelX === 'number' && typeof pixelY === 'number') {
+        metadata.width = pixelX;
+        metadata.height = pixelY;
+    }
+};
+
+// Walk the JPEG segments before the image data
+const forEachSegment = (view: DataView, callback: (marker: number, offset: number, length: number) => void): number => {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+        const marker = view.getUint8(offset + 1);
+        if (marker === MARKER_SOS || marker === MARKER_EOI) break;
+        const length = view.getUint16(offset + 2);
+        callback(marker, offset, length);
+        offset += 2 + length;
+    }
+    return offset;
+};
+
+// Read date, camera and dimensions from a JPEG. Other formats return null.
+export const readImageMetadata = async (file: File): Promise<ImageMetadata | null> => {
+    if (file.type !== 'image/jpeg') return null;
+
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (!isJpeg(view)) return null;
+
+    const metadata: ImageMetadata = { hasGps: false };
+    let frameWidth: number | undefined;
+    let frameHeight: number | undefined;
+
+    forEachSegment(view, (marker, offset, length) => {
+        // "Exif\0\0" header followed by the TIFF structure
+        if (marker === MARKER_APP1 && length > 8 && view.getUint32(offset + 4) === 0x45786966) {
+            readExif(view, offset + 10, metadata);
+        }
+        if (SOF_MARKERS.includes(marker) && offset + 9 <= view.byteLength) {
+            frameHeight = view.getUint16(offset + 5);
+            frameWidth = view.getUint16(offset + 7);
+        }
+    });
+
+    // The frame header is authoritative, EXIF pixel sizes are often stale after edits
+    const width = frameWidth ?? metadata.width;
+    const height = frameHeight ?? metadata.height;
+    const sideways = (metadata.orientation ?? 1) >= 5;
+    metadata.width = sideways ? height : width;
+    metadata.height = sideways ? width : height;
+
+    return metadata;
+};
+
+const readFourCC = (view: DataView, offset: number): string =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Set the IFD0 orientation tag of an EXIF segment to upright, in place
+const resetOrientation = (view: DataView, tiffStart: number): void => {
+    const byteOrder = view.getUint16(tiffStart);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return;
+    const littleEndian = byteOrder === 0x4949;
+
+    const start = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+    if (start + 2 > view.byteLength) return;
+    const count = view.getUint16(start, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return;
+        if (view.getUint16(entry, littleEndian) === TAG_ORIENTATION) {
+            view.setUint16(entry + 8, 1, littleEndian);
+            return;
+        }
+    }
+};
+
+// Drop APP1/APP13 segments without touching the image data
+const stripJpegSegments = async (file: File): Promise<Blob> => {
+    const buffer = await file.arrayBuffer();
+    const view = new DataView(buffer);
+    const parts: BlobPart[] = [buffer.slice(0, 2)];
+
+    const dataStart = forEachSegment(view, (marker, offset, length) => {
+        if (marker !== MARKER_APP1 && marker !== MARKER_APP13) {
+            parts.push(buffer.slice(offset, offset + 2 + length));
+        }
+    });
+    parts.push(buffer.slice(dataStart));
+
+    return new Blob(parts, { type: file.type });
+};
+
+// Drop the metadata chunks of a PNG, every chunk carries its own CRC so the rest is copied as is
+const stripPngChunks = async (file: File): Promise<Blob> => {
+    const buffer = await file.arrayBuffer();
+    const view = new DataView(buffer);
+    if (view.byteLength < 8 || view.getUint32(0) !== 0x89504e47) throw new Error('Not a PNG file');
+
+    const parts: BlobPart[] = [buffer.slice(0, 8)];
+    let offset = 8;
+    while (offset + 12 <= view.byteLength) {
+        const type = readFourCC(view, offset + 4);
+        const end = offset + 12 + view.getUint32(offset);
+        if (!PNG_METADATA_CHUNKS.includes(type)) {
+            parts.push(buffer.slice(offset, end));
+        }
+        offset = end;
+        if (type === 'IEND') break;
+    }
+
+    return new Blob(parts, { type: file.type });
+};
+
+// Drop the EXIF and XMP chunks of a WebP and clear their flags, the RIFF size is rewritten to match
+const stripWebpChunks = async (file: File): Promise<Blob> => {
+    const buffer = await file.arrayBuffer();
+    const view = new DataView(buffer);
+    if (view.byteLength < 12 || readFourCC(view, 0) !== 'RIFF' || readFourCC(view, 8) !== 'WEBP') {
+        throw new Error('Not a WebP file');
+    }
+
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+        const type = readFourCC(view, offset);
+        const end = Math.min(view.byteLength, offset + 8 + view.getUint32(offset + 4, true));
+        const paddedEnd = Math.min(view.byteLength, end + (end % 2)); // chunks are padded to an even size
+        if (!WEBP_METADATA_CHUNKS.includes(type)) {
+            const chunk = new Uint8Array(buffer.slice(offset, paddedEnd));
+            if (type === 'VP8X' && chunk.length > 8) chunk[8] &= ~WEBP_METADATA_FLAGS;
+            chunks.push(chunk);
+        }
+        offset = paddedEnd;
+    }
+
+    const header = new Uint8Array(buffer.slice(0, 12));
+    new DataView(header.buffer).setUint32(4, 4 + chunks.reduce((total, chunk) => total + chunk.length, 0), true);
+    return new Blob([header, ...chunks], { type: file.type });
+};
+
+// Copy the EXIF/XMP/IPTC segments of the source into a re-encoded JPEG, marked upright
+const copyJpegMetadata = async (source: File, encoded: Blob): Promise<Blob> => {
+    const sourceBuffer = await source.slice(0, HEADER_BYTES).arrayBuffer();
+    const sourceView = new DataView(sourceBuffer);
+    const segments: Uint8Array<ArrayBuffer>[] = [];
+    forEachSegment(sourceView, (marker, offset, length) => {
+        if ((marker !== MARKER_APP1 && marker !== MARKER_APP13) || offset + 2 + length > sourceView.byteLength) return;
+        const segment = new Uint8Array(sourceBuffer.slice(offset, offset + 2 + length));
+        const segmentView = new DataView(segment.buffer);
+        if (marker === MARKER_APP1 && length > 8 && segmentView.getUint32(4) === 0x45786966) {
+            resetOrientation(segmentView, 10);
+        }
+        segments.push(segment);
+    });
+
+    // After the JFIF header when there is one, right after the start of image otherwise
+    const buffer = await encoded.arrayBuffer();
+    const view = new DataView(buffer);
+    let insertAt = 2;
+    forEachSegment(view, (marker, offset, length) => {
+        if (marker === MARKER_APP0 && insertAt === 2) insertAt = offset + 2 + length;
+    });
+    return new Blob([buffer.slice(0, insertAt), ...segments, buffer.slice(insertAt)], { type: 'image/jpeg' });
+};
+
+// Upright JPEG copy of the image. Canvas output carries no metadata, so it is copied over unless stripped.
+const reencodeUpright = async (file: File, keepMetadata: boolean): Promise<Blob> => {
+    const bitmap = await createImageBitmap(file);
+    let blob: Blob;
+    try {
+        blob = await renderToBlob(bitmap, bitmap.width, bitmap.height, 'image/jpeg', 0.92);
+    } finally {
+        bitmap.close();
+    }
+    return keepMetadata && file.type === 'image/jpeg' ? copyJpegMetadata(file, blob) : blob;
+};
+
+const needsReencode = (file: File): boolean => {
+    const name = file.name.toLowerCase();
+    return REENCODED_TYPES.includes(file.type) || REENCODED_EXTENSIONS.some(extension => name.endsWith(extension));
+};
+
+// Apply the orientation/stripping options to a picked image. JPEG, PNG and WebP metadata is removed
+// without touching the image data, HEIC/HEIF/AVIF/TIFF are re-encoded as JPEG. Throws when stripping
+// was asked for and the file cannot be decoded, so it is never uploaded with its metadata.
+export const sanitizeImage = async (
+    file: File,
+    metadata: ImageMetadata | null,
+    { stripMetadata = false, normalizeOrientation = true }: MetadataOptions
+): Promise<File> => {
+    let blob: Blob;
+    let name = file.name;
+    if (metadata) {
+        const rotated = (metadata.orientation ?? 1) !== 1;
+        if (rotated && (normalizeOrientation || stripMetadata)) {
+            // Stripping the orientation tag alone would leave the photo sideways
+            blob = await reencodeUpright(file, !stripMetadata);
+        } else if (stripMetadata) {
+            blob = await stripJpegSegments(file);
+        } else {
+            return file;
+        }
+    } else if (!stripMetadata) {
+        return file;
+    } else if (file.type === 'image/png') {
+        blob = await stripPngChunks(file);
+    } else if (file.type === 'image/webp') {
+        blob = await stripWebpChunks(file);
+    } else if (needsReencode(file)) {
+        blob = await reencodeUpright(file, false);
+        name = renameForType(file.name, blob.type);
+    } else {
+        return file;
+    }
+
+    return new File([blob], name, { type: blob.type || file.type, lastModified: file.lastModified });
+};
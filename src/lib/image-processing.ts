@@ -0,0 +1,134 @@
+// Canvas based resize/re-encode. Runs inside the compression worker, or on the main thread as a fallback.
+
+export type ImageOutputType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/avif';
+
+export interface ImageCompressionOptions {
+    maxWidth?: number;
+    maxHeight?: number;
+    mimeType?: ImageOutputType; // defaults to the source type, JPEG for anything else
+    quality?: number;    // 0-1, starting quality for the encoder
+    targetSize?: number; // in bytes, lower quality (then dimensions) until the output fits
+}
+
+const MIN_QUALITY = 0.4;
+const QUALITY_STEPS = 6;
+const MAX_DOWNSCALES = 3;
+
+const OUTPUT_TYPES: string[] = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+const ALPHA_TYPES = ['image/png', 'image/webp', 'image/avif', 'image/gif'];
+const ALPHA_SAMPLE_SIZE = 256; // longest side of the copy scanned for transparent pixels
+
+// Draw a bitmap at the given size and encode it, preferring OffscreenCanvas when available
+export const renderToBlob = async (
+    bitmap: ImageBitmap,
+    width: number,
+    height: number,
+    type: string,
+    quality: number
+): Promise<Blob> => {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const canvas = new OffscreenCanvas(width, height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas not supported');
+        context.drawImage(bitmap, 0, 0, width, height);
+        return canvas.convertToBlob({ type, quality });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas not supported');
+    context.drawImage(bitmap, 0, 0, width, height);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+    });
+};
+
+// Scan a scaled down copy for pixels that are not fully opaque
+const hasTransparency = (bitmap: ImageBitmap): boolean => {
+    const scale = Math.min(1, ALPHA_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(width, height)
+        : Object.assign(document.createElement('canvas'), { width, height });
+    const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!context) return true; // cannot tell, so assume it matters
+
+    context.drawImage(bitmap, 0, 0, width, height);
+    const { data } = context.getImageData(0, 0, width, height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+};
+
+// Resize and re-encode an image blob. Returns the original when the result would not be smaller.
+export const encodeImage = async (source: Blob, options: ImageCompressionOptions): Promise<Blob> => {
+    const {
+        maxWidth = 1920,
+        maxHeight = 1920,
+        quality = 0.8,
+        targetSize
+    } = options;
+
+    // createImageBitmap applies EXIF orientation, so the output is upright
+    const bitmap = await createImageBitmap(source);
+
+    try {
+        const scale = Math.min(1, maxWidth / bitmap.width, maxHeight / bitmap.height);
+        let width = Math.max(1, Math.round(bitmap.width * scale));
+        let height = Math.max(1, Math.round(bitmap.height * scale));
+
+        // JPEG has no alpha channel and would flatten transparent areas onto black
+        const keepsAlpha = ALPHA_TYPES.includes(source.type) && hasTransparency(bitmap);
+        const fallbackType = keepsAlpha ? 'image/png' : 'image/jpeg';
+        let type: string = options.mimeType ?? (OUTPUT_TYPES.includes(source.type) ? source.type : 'image/jpeg');
+        if (type === 'image/jpeg' && keepsAlpha) {
+            type = OUTPUT_TYPES.includes(source.type) ? source.type : fallbackType;
+        }
+        let blob = await renderToBlob(bitmap, width, height, type, quality);
+
+        // Encoders silently fall back to PNG for unsupported types (AVIF in most browsers)
+        if (blob.type !== type) {
+            type = fallbackType;
+            blob = await renderToBlob(bitmap, width, height, type, quality);
+        }
+
+        if (targetSize) {
+            for (let downscale = 0; blob.size > targetSize && downscale <= MAX_DOWNSCALES; downscale++) {
+                if (downscale > 0) {
+                    width = Math.max(1, Math.round(width * 0.75));
+                    height = Math.max(1, Math.round(height * 0.75));
+                }
+
+                // Binary search the highest quality that still fits
+                let low = MIN_QUALITY;
+                let high = quality;
+                let best: Blob | null = null;
+                for (let step = 0; step < QUALITY_STEPS; step++) {
+                    const candidateQuality = (low + high) / 2;
+                    const candidate = await renderToBlob(bitmap, width, height, type, candidateQuality);
+                    if (candidate.size <= targetSize) {
+                        best = candidate;
+                        low = candidateQuality;
+                    } else {
+                        high = candidateQuality;
+                    }
+                }
+
+                blob = best ?? await renderToBlob(bitmap, width, height, type, MIN_QUALITY);
+            }
+        }
+
+        // Whatever the type, a re-encode at the same size is only worth it when it is smaller
+        const resized = width !== bitmap.width || height !== bitmap.height;
+        if (!resized && blob.size >= source.size) {
+            return source;
+        }
+        return blob;
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,172 @@
+import type { UploaderMessages } from '@/lib/i18n';
+
+// Arabic uses all six plural categories (zero, one, two, few, many, other)
+const files = '{count, plural, zero {لا ملفات} one {ملف واحد} two {ملفان} few {# ملفات} many {# ملفًا} other {# ملف}}';
+const photos = '{count, plural, zero {لا صور} one {صورة واحدة} two {صورتان} few {# صور} many {# صورةً} other {# صورة}}';
+const pages = '{count, plural, zero {لا صفحات} one {صفحة واحدة} two {صفحتان} few {# صفحات} many {# صفحةً} other {# صفحة}}';
+
+export const ar: UploaderMessages = {
+    dropzoneTitle: 'أفلت الملفات هنا أو انقر للرفع',
+    dropzoneAccepts: 'يدعم {types} حتى {maxSize}',
+    dropzoneLimit: 'الحد الأقصى {maxFiles, plural, one {ملف واحد} two {ملفان} few {# ملفات} many {# ملفًا} other {# ملف}} ({count}/{maxFiles} مرفوعة)',
+    pasteZoneHint: 'انقر هنا والصق لإضافة صور من الحافظة',
+    pasteDocumentHint: 'الصق في أي مكان لإضافة صور من الحافظة',
+    processingFiles: `جارٍ معالجة ${files}...`,
+    restoringFiles: 'جارٍ استعادة الملفات المحفوظة...',
+    chooseFiles: 'اختيار ملفات',
+    chooseFolder: 'اختيار مجلد',
+    takePhoto: 'التقاط صورة',
+    requiredError: 'يرجى إضافة ملف واحد على الأقل.',
+
+    rejectedSummary: `لم تتم إضافة ${files}`,
+    rejectInvalidType: 'نوع الملف {name} غير مدعوم',
+    rejectTooLarge: 'الملف {name} كبير جدًا ({size}). الحد الأقصى للحجم هو {maxSize}',
+    rejectTooSmall: 'الملف {name} صغير جدًا ({size}). الحد الأدنى للحجم هو {minSize}',
+    rejectTooMany: 'لم تتم إضافة {name}. تم بلوغ الحد الأقصى ({maxFiles})',
+    rejectDuplicate: 'تمت إضافة {name} مسبقًا',
+    rejectInvalid: 'الملف {name} غير صالح',
+    rejectMetadata: 'لم تتم إضافة {name} لأنه تعذّرت إزالة بيانات الموقع والجهاز منه',
+    rejectValidatorFailed: 'تعذّر التحقق من {name}',
+    dismiss: 'إغلاق',
+
+    selectedFiles: 'الملفات المحددة ({count})',
+    preview: 'معاينة',
+    previewFile: 'معاينة {name}',
+    cover: 'الغلاف',
+    coverImage: 'صورة الغلاف',
+    setAsCover: 'تعيين كغلاف',
+    reorderFile: 'إعادة ترتيب {name}، الموضع {position} من {total}',
+    reorderHint: 'اسحب أو استخدم مفاتيح الأسهم لإعادة الترتيب',
+    editImage: 'تحرير الصورة',
+    remove: 'إزالة',
+    statusQueued: 'في الانتظار',
+    statusUploaded: 'تم الرفع',
+    statusFailed: 'فشل',
+    cancelUpload: 'إلغاء الرفع',
+    retryUpload: 'إعادة محاولة الرفع',
+
+    uploadButton: `رفع ${files}`,
+    uploading: 'جارٍ الرفع...',
+    uploadSucceeded: `تم رفع ${files}`,
+    uploadPartiallyFailed: 'فشل رفع {failed} من أصل {total}.',
+    uploadError: 'فشل الرفع. يرجى المحاولة مرة أخرى.',
+    uploadFailed: 'فشل الرفع',
+    uploadCancelled: 'تم إلغاء الرفع',
+    readyToUpload: `جاهز لرفع ${files}`,
+    checksumMismatch: 'المجموع الاختباري غير مطابق، تلف الملف أثناء النقل',
+
+    queueOffline: `غير متصل. سيتم رفع ${files} عند عودة الاتصال`,
+    queueOfflineIdle: 'غير متصل. ستتم إضافة عمليات الرفع إلى قائمة الانتظار',
+    queueRetrying: 'فشلت المحاولة {attempt}. إعادة المحاولة في {time}',
+    queueRetryingWithError: 'فشلت المحاولة {attempt} ({error}). إعادة المحاولة في {time}',
+    queueUploading: 'جارٍ رفع الملفات في قائمة الانتظار...',
+    queueStarted: 'أنت غير متصل. سيتم رفع الملفات عند عودة الاتصال.',
+    queueFailed: `تعذر رفع ${files}.`,
+    queueDone: 'تم رفع جميع الملفات في قائمة الانتظار',
+    retryNow: 'أعد المحاولة الآن',
+
+    close: 'إغلاق',
+    cancel: 'إلغاء',
+    recordVideo: 'تسجيل فيديو',
+    photoMode: 'صورة',
+    videoMode: 'فيديو',
+    cameraSelect: 'الكاميرا',
+    cameraFallbackLabel: 'الكاميرا {index}',
+    resolutionSelect: 'الدقة',
+    flipCamera: 'التبديل بين الكاميرا الأمامية والخلفية',
+    startingCamera: 'جارٍ تشغيل الكاميرا...',
+    capturePhoto: 'التقاط',
+    recordWithAudio: 'التسجيل مع الصوت',
+    recordWithoutAudio: 'التسجيل بدون صوت',
+    startRecording: 'بدء التسجيل',
+    stopRecording: 'إيقاف التسجيل',
+    useClip: 'استخدام المقطع',
+    retake: 'إعادة الالتقاط',
+    cameraUnsupported: 'هذا المتصفح لا يدعم الوصول إلى الكاميرا.',
+    cameraDenied: 'تم رفض الوصول إلى الكاميرا. يرجى السماح بأذونات الكاميرا والمحاولة مرة أخرى.',
+    cameraNotFound: 'لم يتم العثور على كاميرا في هذا الجهاز.',
+    cameraNotSupportedOnDevice: 'الكاميرا غير مدعومة على هذا الجهاز.',
+    cameraNoSettings: 'تعذر الوصول إلى الكاميرا بأي إعدادات.',
+    cameraError: 'خطأ في الكاميرا: {message}',
+    cameraUnavailable: 'تعذر الوصول إلى الكاميرا. يرجى التحقق من الأذونات.',
+    cameraSwitchFailed: 'تعذر التبديل إلى تلك الكاميرا.',
+    cameraNotReady: 'الكاميرا ليست جاهزة بعد. يرجى الانتظار قليلًا والمحاولة مرة أخرى.',
+    captureUnsupported: 'تعذر التقاط الصورة. Canvas غير مدعوم.',
+    captureFailed: 'فشل التقاط الصورة. يرجى المحاولة مرة أخرى.',
+    recordingUnsupported: 'هذا المتصفح لا يدعم تسجيل الفيديو.',
+    microphoneUnavailable: 'الميكروفون غير متاح. سيتم التسجيل بدون صوت.',
+    recordingStartFailed: 'تعذر بدء التسجيل على هذا الجهاز.',
+    recordingFailed: 'فشل التسجيل. يرجى المحاولة مرة أخرى.',
+
+    editPhoto: 'تحرير الصورة',
+    editImageTitle: 'تحرير الصورة',
+    useOriginal: 'استخدام الأصل',
+    loadingImage: 'جارٍ تحميل الصورة...',
+    cropFree: 'حر',
+    rotateLeft: 'تدوير لليسار',
+    rotateRight: 'تدوير لليمين',
+    flipHorizontal: 'قلب أفقي',
+    flipVertical: 'قلب عمودي',
+    reset: 'إعادة تعيين',
+    apply: 'تطبيق',
+    saving: 'جارٍ الحفظ...',
+    editorOpenFailed: 'تعذر فتح هذه الصورة للتحرير.',
+    editorUnsupported: 'تعذر حفظ الصورة. Canvas غير مدعوم.',
+    editorSaveFailed: 'فشل حفظ الصورة. يرجى المحاولة مرة أخرى.',
+
+    zoomIn: 'تكبير',
+    zoomOut: 'تصغير',
+    previous: 'السابق',
+    next: 'التالي',
+    noPreview: 'لا تتوفر معاينة',
+    lightboxPosition: '{index} / {total}',
+
+    scanMode: 'مستند',
+    scanDocument: 'مسح مستند',
+    pageFound: 'تم العثور على صفحة',
+    lookingForPage: 'جارٍ البحث عن صفحة...',
+    pagesScanned: `تم مسح ${pages}`,
+    adjustPage: 'ضبط الصفحة {page}',
+    scanCorner: '{corner, select, topLeft {الزاوية العلوية اليسرى} topRight {الزاوية العلوية اليمنى} bottomRight {الزاوية السفلية اليمنى} other {الزاوية السفلية اليسرى}}',
+    scanCornerHint: 'اسحب الزوايا إلى حواف الصفحة، أو حرّك الزاوية المحددة بمفاتيح الأسهم',
+    enhancement: 'التحسين',
+    enhanceColor: 'ألوان',
+    enhanceGrayscale: 'تدرج رمادي',
+    enhanceBlackWhite: 'أبيض وأسود',
+    addPage: 'إضافة صفحة',
+    finishScan: `تم (${pages})`,
+    scanInvalidCorners: 'يجب أن تحدد الزوايا صفحة رباعية الأضلاع.',
+    scanFailed: 'تعذرت معالجة المسح. يرجى المحاولة مرة أخرى.',
+    scanPdfFailed: 'تعذر إنشاء ملف PDF، لذا أُضيفت الصفحات كصور.',
+
+    renameFile: 'إعادة التسمية',
+    newFileName: 'اسم جديد لـ {name}',
+    namePrefix: 'بادئة الاسم',
+
+    shotsTaken: `تم التقاط ${photos}`,
+    shotsRemaining: '{count, plural, zero {لا يمكن إضافة المزيد من الصور} one {يمكن إضافة صورة واحدة أخرى} two {يمكن إضافة صورتين أخريين} few {يمكن إضافة # صور أخرى} many {يمكن إضافة # صورةً أخرى} other {يمكن إضافة # صورة أخرى}}',
+    reviewShot: 'اللقطة {index}',
+    discardShot: 'حذف اللقطة {index}',
+    backToCamera: 'العودة إلى الكاميرا',
+    selfTimer: '{seconds, plural, zero {المؤقت الذاتي متوقف} one {المؤقت الذاتي: ثانية واحدة} two {المؤقت الذاتي: ثانيتان} few {المؤقت الذاتي: # ثوانٍ} many {المؤقت الذاتي: # ثانيةً} other {المؤقت الذاتي: # ثانية}}',
+    timerSeconds: '{seconds} ث',
+    cancelTimer: 'إلغاء المؤقت',
+    burst: 'تتابع ({count})',
+    useShots: `تم (${photos})`,
+
+    barcodeMode: 'باركود',
+    scanBarcode: 'مسح الباركود',
+    lookingForCode: 'جارٍ البحث عن باركود أو رمز QR...',
+    codeDetected: '{format}: {value}',
+    barcodeFormatsUnsupported: 'لا يستطيع هذا المتصفح قراءة رموز {formats}',
+
+    dropzoneLabel: 'منطقة إفلات الملفات',
+    dropzoneKeyboardHint: 'اضغط Enter أو مسافة لاختيار الملفات',
+    cameraPreview: 'معاينة الكاميرا',
+    shutterHint: '{mode, select, video {اضغط مسافة أو Enter لبدء التسجيل أو إيقافه} other {اضغط مسافة أو Enter لالتقاط صورة}}',
+    cropArea: 'منطقة القص. تحركها مفاتيح الأسهم، ويغيّر Shift مع مفاتيح الأسهم حجمها',
+    uploadProgress: 'تقدم رفع {name}',
+    announceFilesAdded: `تمت إضافة ${files}`,
+    announceFileRemoved: 'تمت إزالة {name}',
+    announceFilesCleared: 'تمت إزالة جميع الملفات'
+};
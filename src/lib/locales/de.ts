@@ -0,0 +1,167 @@
+import type { UploaderMessages } from '@/lib/i18n';
+
+export const de: UploaderMessages = {
+    dropzoneTitle: 'Dateien hierher ziehen oder zum Hochladen klicken',
+    dropzoneAccepts: 'Unterstützt {types} bis {maxSize}',
+    dropzoneLimit: 'Maximal {maxFiles, plural, one {# Datei} other {# Dateien}} ({count}/{maxFiles} hochgeladen)',
+    pasteZoneHint: 'Hier klicken und einfügen, um Bilder aus der Zwischenablage hinzuzufügen',
+    pasteDocumentHint: 'Irgendwo einfügen, um Bilder aus der Zwischenablage hinzuzufügen',
+    processingFiles: '{count, plural, one {# Datei wird} other {# Dateien werden}} verarbeitet...',
+    restoringFiles: 'Gespeicherte Dateien werden wiederhergestellt...',
+    chooseFiles: 'Dateien auswählen',
+    chooseFolder: 'Ordner auswählen',
+    takePhoto: 'Foto aufnehmen',
+    requiredError: 'Bitte mindestens eine Datei hinzufügen.',
+
+    rejectedSummary: '{count, plural, one {# Datei wurde} other {# Dateien wurden}} nicht hinzugefügt',
+    rejectInvalidType: '{name} ist kein unterstützter Dateityp',
+    rejectTooLarge: '{name} ist zu groß ({size}). Die maximale Größe beträgt {maxSize}',
+    rejectTooSmall: '{name} ist zu klein ({size}). Die minimale Größe beträgt {minSize}',
+    rejectTooMany: '{name} wurde nicht hinzugefügt. Das Maximum von {maxFiles, plural, one {# Datei} other {# Dateien}} ist erreicht',
+    rejectDuplicate: '{name} wurde bereits hinzugefügt',
+    rejectInvalid: '{name} ist ungültig',
+    rejectMetadata: '{name} wurde nicht hinzugefügt, weil Standort- und Gerätedaten nicht entfernt werden konnten',
+    rejectValidatorFailed: '{name} konnte nicht geprüft werden',
+    dismiss: 'Schließen',
+
+    selectedFiles: 'Ausgewählte Dateien ({count})',
+    preview: 'Vorschau',
+    previewFile: 'Vorschau von {name}',
+    cover: 'Titelbild',
+    coverImage: 'Titelbild',
+    setAsCover: 'Als Titelbild festlegen',
+    reorderFile: '{name} verschieben, Position {position} von {total}',
+    reorderHint: 'Ziehen oder mit den Pfeiltasten verschieben',
+    editImage: 'Bild bearbeiten',
+    remove: 'Entfernen',
+    statusQueued: 'Wartend',
+    statusUploaded: 'Hochgeladen',
+    statusFailed: 'Fehlgeschlagen',
+    cancelUpload: 'Hochladen abbrechen',
+    retryUpload: 'Erneut hochladen',
+
+    uploadButton: '{count, plural, one {# Datei} other {# Dateien}} hochladen',
+    uploading: 'Wird hochgeladen...',
+    uploadSucceeded: '{count, plural, one {# Datei} other {# Dateien}} hochgeladen',
+    uploadPartiallyFailed: '{failed} von {total, plural, one {# Datei} other {# Dateien}} konnten nicht hochgeladen werden.',
+    uploadError: 'Hochladen fehlgeschlagen. Bitte erneut versuchen.',
+    uploadFailed: 'Hochladen fehlgeschlagen',
+    uploadCancelled: 'Hochladen abgebrochen',
+    readyToUpload: 'Bereit zum Hochladen: {count, plural, one {# Datei} other {# Dateien}}',
+    checksumMismatch: 'Prüfsumme stimmt nicht überein, die Datei wurde bei der Übertragung beschädigt',
+
+    queueOffline: 'Offline. {count, plural, one {# Datei wird} other {# Dateien werden}} hochgeladen, sobald die Verbindung zurück ist',
+    queueOfflineIdle: 'Offline. Uploads werden in die Warteschlange gestellt',
+    queueRetrying: 'Versuch {attempt} fehlgeschlagen. Neuer Versuch um {time}',
+    queueRetryingWithError: 'Versuch {attempt} fehlgeschlagen ({error}). Neuer Versuch um {time}',
+    queueUploading: 'Dateien aus der Warteschlange werden hochgeladen...',
+    queueStarted: 'Du bist offline. Die Dateien werden hochgeladen, sobald die Verbindung zurück ist.',
+    queueFailed: '{count, plural, one {# Datei konnte} other {# Dateien konnten}} nicht hochgeladen werden.',
+    queueDone: 'Alle Dateien aus der Warteschlange wurden hochgeladen',
+    retryNow: 'Jetzt erneut versuchen',
+
+    close: 'Schließen',
+    cancel: 'Abbrechen',
+    recordVideo: 'Video aufnehmen',
+    photoMode: 'Foto',
+    videoMode: 'Video',
+    cameraSelect: 'Kamera',
+    cameraFallbackLabel: 'Kamera {index}',
+    resolutionSelect: 'Auflösung',
+    flipCamera: 'Zwischen Front- und Rückkamera wechseln',
+    startingCamera: 'Kamera wird gestartet...',
+    capturePhoto: 'Auslösen',
+    recordWithAudio: 'Mit Ton aufnehmen',
+    recordWithoutAudio: 'Ohne Ton aufnehmen',
+    startRecording: 'Aufnahme starten',
+    stopRecording: 'Aufnahme beenden',
+    useClip: 'Clip verwenden',
+    retake: 'Neu aufnehmen',
+    cameraUnsupported: 'Dieser Browser unterstützt keinen Kamerazugriff.',
+    cameraDenied: 'Kamerazugriff verweigert. Bitte die Kameraberechtigung erlauben und erneut versuchen.',
+    cameraNotFound: 'Auf diesem Gerät wurde keine Kamera gefunden.',
+    cameraNotSupportedOnDevice: 'Die Kamera wird auf diesem Gerät nicht unterstützt.',
+    cameraNoSettings: 'Mit keiner Einstellung war ein Kamerazugriff möglich.',
+    cameraError: 'Kamerafehler: {message}',
+    cameraUnavailable: 'Kein Zugriff auf die Kamera. Bitte die Berechtigungen prüfen.',
+    cameraSwitchFailed: 'Wechsel zu dieser Kamera nicht möglich.',
+    cameraNotReady: 'Die Kamera ist noch nicht bereit. Bitte einen Moment warten und erneut versuchen.',
+    captureUnsupported: 'Foto kann nicht aufgenommen werden. Canvas wird nicht unterstützt.',
+    captureFailed: 'Foto konnte nicht aufgenommen werden. Bitte erneut versuchen.',
+    recordingUnsupported: 'Dieser Browser unterstützt keine Videoaufnahme.',
+    microphoneUnavailable: 'Mikrofon nicht verfügbar. Aufnahme ohne Ton.',
+    recordingStartFailed: 'Die Aufnahme kann auf diesem Gerät nicht gestartet werden.',
+    recordingFailed: 'Aufnahme fehlgeschlagen. Bitte erneut versuchen.',
+
+    editPhoto: 'Foto bearbeiten',
+    editImageTitle: 'Bild bearbeiten',
+    useOriginal: 'Original verwenden',
+    loadingImage: 'Bild wird geladen...',
+    cropFree: 'Frei',
+    rotateLeft: 'Nach links drehen',
+    rotateRight: 'Nach rechts drehen',
+    flipHorizontal: 'Horizontal spiegeln',
+    flipVertical: 'Vertikal spiegeln',
+    reset: 'Zurücksetzen',
+    apply: 'Übernehmen',
+    saving: 'Wird gespeichert...',
+    editorOpenFailed: 'Dieses Bild kann nicht zum Bearbeiten geöffnet werden.',
+    editorUnsupported: 'Bild kann nicht gespeichert werden. Canvas wird nicht unterstützt.',
+    editorSaveFailed: 'Bild konnte nicht gespeichert werden. Bitte erneut versuchen.',
+
+    zoomIn: 'Vergrößern',
+    zoomOut: 'Verkleinern',
+    previous: 'Zurück',
+    next: 'Weiter',
+    noPreview: 'Keine Vorschau verfügbar',
+    lightboxPosition: '{index} / {total}',
+
+    scanMode: 'Dokument',
+    scanDocument: 'Dokument scannen',
+    pageFound: 'Seite erkannt',
+    lookingForPage: 'Suche nach einer Seite...',
+    pagesScanned: '{count, plural, one {# Seite} other {# Seiten}} gescannt',
+    adjustPage: 'Seite {page} anpassen',
+    scanCorner: '{corner, select, topLeft {Ecke oben links} topRight {Ecke oben rechts} bottomRight {Ecke unten rechts} other {Ecke unten links}}',
+    scanCornerHint: 'Die Ecken auf die Kanten der Seite ziehen oder eine ausgewählte Ecke mit den Pfeiltasten verschieben',
+    enhancement: 'Optimierung',
+    enhanceColor: 'Farbe',
+    enhanceGrayscale: 'Graustufen',
+    enhanceBlackWhite: 'Schwarzweiß',
+    addPage: 'Seite hinzufügen',
+    finishScan: 'Fertig ({count, plural, one {# Seite} other {# Seiten}})',
+    scanInvalidCorners: 'Die Ecken müssen eine viereckige Seite umschließen.',
+    scanFailed: 'Der Scan konnte nicht verarbeitet werden. Bitte erneut versuchen.',
+    scanPdfFailed: 'Das PDF konnte nicht erstellt werden, die Seiten wurden stattdessen als Bilder hinzugefügt.',
+
+    renameFile: 'Umbenennen',
+    newFileName: 'Neuer Name für {name}',
+    namePrefix: 'Namenspräfix',
+
+    shotsTaken: '{count, plural, one {# Aufnahme} other {# Aufnahmen}}',
+    shotsRemaining: '{count, plural, =0 {Keine weiteren Fotos möglich} one {Noch # Foto möglich} other {Noch # Fotos möglich}}',
+    reviewShot: 'Aufnahme {index}',
+    discardShot: 'Aufnahme {index} verwerfen',
+    backToCamera: 'Zurück zur Kamera',
+    selfTimer: '{seconds, plural, =0 {Selbstauslöser aus} other {Selbstauslöser: # Sekunden}}',
+    timerSeconds: '{seconds} s',
+    cancelTimer: 'Timer abbrechen',
+    burst: 'Serie ({count})',
+    useShots: 'Fertig ({count, plural, one {# Foto} other {# Fotos}})',
+
+    barcodeMode: 'Barcode',
+    scanBarcode: 'Barcode scannen',
+    lookingForCode: 'Suche nach einem Barcode oder QR-Code...',
+    codeDetected: '{format}: {value}',
+    barcodeFormatsUnsupported: 'Dieser Browser kann keine {formats}-Codes lesen',
+
+    dropzoneLabel: 'Ablagebereich für Dateien',
+    dropzoneKeyboardHint: 'Eingabe- oder Leertaste drücken, um Dateien auszuwählen',
+    cameraPreview: 'Kameravorschau',
+    shutterHint: '{mode, select, video {Leer- oder Eingabetaste startet und beendet die Aufnahme} other {Leer- oder Eingabetaste drücken, um ein Foto aufzunehmen}}',
+    cropArea: 'Zuschnittbereich. Die Pfeiltasten verschieben ihn, Umschalt und die Pfeiltasten ändern seine Größe',
+    uploadProgress: 'Upload-Fortschritt von {name}',
+    announceFilesAdded: '{count, plural, one {# Datei hinzugefügt} other {# Dateien hinzugefügt}}',
+    announceFileRemoved: '{name} entfernt',
+    announceFilesCleared: 'Alle Dateien entfernt'
+};
@@ -0,0 +1,277 @@
+// Presigning adapters used by the /api/upload/presign route handler (server only)
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { CompletedPart, MultipartUploadInfo, PresignedPart, UploadTarget } from '@/lib/upload-api';
+
+export interface ObjectDescriptor {
+    key: string;
+    type: string;
+    size: number;
+}
+
+export interface ObjectStorage {
+    createUploadTarget: (object: ObjectDescriptor) => Promise<UploadTarget>;
+    createMultipartUpload: (object: ObjectDescriptor) => Promise<MultipartUploadInfo>;
+    signPart: (upload: MultipartUploadInfo, partNumber: number) => Promise<PresignedPart>;
+    completeMultipartUpload: (upload: MultipartUploadInfo, parts: CompletedPart[]) => Promise<void>;
+    abortMultipartUpload: (upload: MultipartUploadInfo) => Promise<void>;
+}
+
+// Query parameters (or POST form fields) a signed bucket request carries
+export interface SignedBucketRequest {
+    method: 'PUT' | 'POST';
+    key: string;
+    uploadId?: string;
+    partNumber?: number;
+    type?: string;     // whole-object uploads only, the type and exact byte size the presign route validated
+    size?: number;
+    expires: number;   // epoch seconds
+    signature: string;
+}
+
+export interface StoredObject {
+    type: string;
+    size: number;
+    body: ReadableStream<Uint8Array>; // read from disk as it is sent
+}
+
+// Extra calls the local bucket route uses to act like a storage service
+export interface LocalBucketStorage extends ObjectStorage {
+    verifyRequest: (request: SignedBucketRequest) => boolean;
+    // Bodies are streamed to disk, `size` is the exact byte count the upload was signed for
+    putObject: (key: string, type: string, body: ReadableStream<Uint8Array>, size: number) => Promise<string>; // resolves to the ETag
+    putPart: (uploadId: string, partNumber: number, body: ReadableStream<Uint8Array>) => Promise<string | null>; // null for an unknown upload
+    readObject: (key: string) => Promise<StoredObject | null>;
+}
+
+export interface LocalBucketOptions {
+    directory?: string;
+    endpoint?: string;           // URL prefix of the bucket route
+    secret?: string;             // HMAC key for the signed URLs
+    expiresIn?: number;          // URL lifetime in seconds
+    uploadMethod?: 'PUT' | 'POST'; // kind of target handed out for single requests
+}
+
+export const MAX_PART_NUMBER = 10000;
+
+// `<uuid>/<file name>`, the same layout the presign route asks every adapter for
+const KEY_PATTERN = /^[a-f0-9-]{36}\/[\w-][\w.-]{0,199}$/;
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export const isValidObjectKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+// Object key for a new upload, the file name is kept readable but reduced to safe characters
+export const createObjectKey = (name: string): string => {
+    // Trimmed before the leading dots are dropped, so the cut can never leave a name starting with one
+    const safeName = name.replace(/[^\w.-]+/g, '_').slice(-200).replace(/^[.]+/, '') || 'file';
+    return `${crypto.randomUUID()}/${safeName}`;
+};
+
+// Write a request body to disk chunk by chunk, failing as soon as it grows past `maxSize`
+const writeBody = async (target: string, body: ReadableStream<Uint8Array>, maxSize: number): Promise<{ etag: string; size: number }> => {
+    const hash = createHash('md5');
+    const reader = body.getReader();
+    let size = 0;
+
+    async function* readChunks() {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            size += value.length;
+            if (size > maxSize) throw new Error(`Body is larger than the ${maxSize} bytes that were signed`);
+            hash.update(value);
+            yield value;
+        }
+    }
+
+    try {
+        await pipeline(readChunks, createWriteStream(target));
+    } catch (error) {
+        reader.cancel().catch(() => undefined);
+        await fs.rm(target, { force: true });
+        throw error;
+    }
+    return { etag: `"${hash.digest('hex')}"`, size };
+};
+
+// Local stand-in for an S3 bucket, so direct uploads work without a cloud account. Meant for development only.
+export const createLocalBucketStorage = ({
+    directory = path.join(process.env.UPLOAD_DIR ?? path.join(process.cwd(), '.uploads'), 'bucket'),
+    endpoint = '/api/upload/bucket',
+    secret = process.env.LOCAL_BUCKET_SECRET ?? 'local-bucket-development-secret',
+    expiresIn = 15 * 60,
+    uploadMethod = 'PUT'
+}: LocalBucketOptions = {}): LocalBucketStorage => {
+    const objectDirectory = path.join(directory, 'objects');
+    const uploadDirectory = path.join(directory, 'multipart');
+
+    // Objects are stored by the uuid part of their key, next to a JSON sidecar with the full key and type
+    const getObjectPath = (key: string): string => path.join(objectDirectory, key.split('/')[0]);
+    const getUploadPath = (uploadId: string): string => path.join(uploadDirectory, uploadId);
+
+    const sign = ({ method, key, uploadId = '', partNumber, type = '', size, expires }: Omit<SignedBucketRequest, 'signature'>): string =>
+        createHmac('sha256', secret)
+            .update([method, key, uploadId, partNumber ?? '', type, size ?? '', expires].join('\n'))
+            .digest('hex');
+
+    const getExpiry = (): number => Math.floor(Date.now() / 1000) + expiresIn;
+
+    const getPublicUrl = (key: string): string => `${endpoint}/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+    const signUrl = (request: Omit<SignedBucketRequest, 'signature' | 'method'>): string => {
+        const query = new URLSearchParams({ expires: String(request.expires), signature: sign({ ...request, method: 'PUT' }) });
+        if (request.uploadId) query.set('uploadId', request.uploadId);
+        if (request.partNumber) query.set('partNumber', String(request.partNumber));
+        if (request.type !== undefined) query.set('type', request.type);
+        if (request.size !== undefined) query.set('size', String(request.size));
+        return `${getPublicUrl(request.key)}?${query}`;
+    };
+
+    // The descriptor a multipart upload was created with, null once it is completed or aborted
+    const readUploadById = async (uploadId: string): Promise<ObjectDescriptor | null> => {
+        if (!ID_PATTERN.test(uploadId)) return null;
+        try {
+            return JSON.parse(await fs.readFile(path.join(getUploadPath(uploadId), 'upload.json'), 'utf8'));
+        } catch (_error) {
+            return null;
+        }
+    };
+
+    const readUpload = async ({ key, uploadId }: MultipartUploadInfo): Promise<ObjectDescriptor | null> => {
+        const upload = await readUploadById(uploadId);
+        return upload?.key === key ? upload : null;
+    };
+
+    // Move a finished file into place, the sidecar is written last so readers never see half an object
+    const storeObject = async (key: string, type: string, file: string): Promise<void> => {
+        await fs.rename(file, getObjectPath(key));
+        await fs.writeFile(`${getObjectPath(key)}.json`, JSON.stringify({ key, type }));
+    };
+
+    const putObject = async (key: string, type: string, body: ReadableStream<Uint8Array>, size: number): Promise<string> => {
+        await fs.mkdir(objectDirectory, { recursive: true });
+        const file = `${getObjectPath(key)}.${crypto.randomUUID()}.upload`;
+        const written = await writeBody(file, body, size);
+        if (written.size !== size) {
+            await fs.rm(file, { force: true });
+            throw new Error(`Expected ${size} bytes, received ${written.size}`);
+        }
+        await storeObject(key, type, file);
+        return written.etag;
+    };
+
+    return {
+        // The type and size are part of the signature, so the upload has to match what was validated
+        createUploadTarget: async ({ key, type, size }) => {
+            const expires = getExpiry();
+            if (uploadMethod === 'POST') {
+                return {
+                    method: 'POST',
+                    url: endpoint,
+                    fields: {
+                        key,
+                        'Content-Type': type,
+                        size: String(size),
+                        expires: String(expires),
+                        signature: sign({ method: 'POST', key, type, size, expires })
+                    },
+                    key,
+                    publicUrl: getPublicUrl(key)
+                };
+            }
+            return {
+                method: 'PUT',
+                url: signUrl({ key, type, size, expires }),
+                headers: type ? { 'Content-Type': type } : undefined,
+                key,
+                publicUrl: getPublicUrl(key)
+            };
+        },
+
+        createMultipartUpload: async ({ key, type, size }) => {
+            const uploadId = crypto.randomUUID();
+            await fs.mkdir(getUploadPath(uploadId), { recursive: true });
+            await fs.writeFile(path.join(getUploadPath(uploadId), 'upload.json'), JSON.stringify({ key, type, size }));
+            return { key, uploadId, publicUrl: getPublicUrl(key) };
+        },
+
+        signPart: async ({ key, uploadId }, partNumber) => ({
+            url: signUrl({ key, uploadId, partNumber, expires: getExpiry() })
+        }),
+
+        // Join the parts in order on disk, every ETag has to match the one recorded when the part was stored
+        completeMultipartUpload: async (upload, parts) => {
+            const stored = await readUpload(upload);
+            if (!stored) throw new Error('Unknown multipart upload');
+            if (parts.length === 0) throw new Error('No parts were provided');
+
+            const partPaths: string[] = [];
+            let total = 0;
+            for (const [index, part] of parts.entries()) {
+                if (part.partNumber !== index + 1) throw new Error('Parts must be numbered 1..n without gaps');
+                const partPath = path.join(getUploadPath(upload.uploadId), String(part.partNumber));
+                let etag: string;
+                try {
+                    etag = await fs.readFile(`${partPath}.etag`, 'utf8');
+                    total += (await fs.stat(partPath)).size;
+                } catch (_error) {
+                    throw new Error(`Part ${part.partNumber} was not uploaded`);
+                }
+                if (etag !== part.etag) throw new Error(`Part ${part.partNumber} does not match its ETag`);
+                partPaths.push(partPath);
+            }
+            if (total !== stored.size) {
+                throw new Error(`The parts do not add up to the ${stored.size} bytes that were signed`);
+            }
+
+            await fs.mkdir(objectDirectory, { recursive: true });
+            const file = path.join(getUploadPath(upload.uploadId), 'object');
+            for (const partPath of partPaths) {
+                await pipeline(createReadStream(partPath), createWriteStream(file, { flags: 'a' }));
+            }
+            await storeObject(stored.key, stored.type, file);
+            await fs.rm(getUploadPath(upload.uploadId), { recursive: true, force: true });
+        },
+
+        abortMultipartUpload: async (upload) => {
+            if (await readUpload(upload)) {
+                await fs.rm(getUploadPath(upload.uploadId), { recursive: true, force: true });
+            }
+        },
+
+        verifyRequest: (request) => {
+            if (!isValidObjectKey(request.key) || request.expires < Date.now() / 1000) return false;
+            const expected = Buffer.from(sign(request));
+            const actual = Buffer.from(request.signature);
+            return expected.length === actual.length && timingSafeEqual(expected, actual);
+        },
+
+        putObject,
+
+        // The ETag is kept next to the part, so completing never has to read the parts back
+        putPart: async (uploadId, partNumber, body) => {
+            const upload = await readUploadById(uploadId);
+            if (!upload) return null;
+            const partPath = path.join(getUploadPath(uploadId), String(partNumber));
+            const { etag } = await writeBody(partPath, body, upload.size);
+            await fs.writeFile(`${partPath}.etag`, etag);
+            return etag;
+        },
+
+        readObject: async (key) => {
+            if (!isValidObjectKey(key)) return null;
+            try {
+                const meta = JSON.parse(await fs.readFile(`${getObjectPath(key)}.json`, 'utf8'));
+                if (meta.key !== key) return null;
+                const { size } = await fs.stat(getObjectPath(key));
+                const body = Readable.toWeb(createReadStream(getObjectPath(key))) as ReadableStream<Uint8Array>;
+                return { type: meta.type, size, body };
+            } catch (_error) {
+                return null;
+            }
+        }
+    };
+};
@@ -0,0 +1,70 @@
+// Minimal PDF writer for scanned pages: one JPEG per page, embedded as is (DCTDecode), no re-encoding
+
+export interface PdfImagePage {
+    data: Uint8Array; // JPEG bytes
+    width: number;    // pixels
+    height: number;
+}
+
+const PAGE_LONG_EDGE = 842; // points, the long edge of an A4 page
+
+// Build a PDF with each image filling its own page, pages keep the image's aspect ratio
+export const createImagePdf = (pages: PdfImagePage[]): Blob => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array): void => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+
+    // Object numbers: 1 catalog, 2 page tree, then page, image and content stream for every page
+    const beginObject = (id: number): void => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    const pageIds = pages.map((_page, index) => 3 + index * 3);
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const pageId = pageIds[index];
+        const scale = PAGE_LONG_EDGE / Math.max(page.width, page.height);
+        const pageWidth = (page.width * scale).toFixed(2);
+        const pageHeight = (page.height * scale).toFixed(2);
+        const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q\n`;
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] `
+            + `/Resources << /XObject << /Im0 ${pageId + 1} 0 R >> >> /Contents ${pageId + 2} 0 R >>\nendobj\n`);
+
+        beginObject(pageId + 1);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB `
+            + `/BitsPerComponent 8 /Filter /DCTDecode /Length ${page.data.length} >>\nstream\n`);
+        write(page.data);
+        write('\nendstream\nendobj\n');
+
+        beginObject(pageId + 2);
+        write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream\nendobj\n`);
+    });
+
+    // Cross-reference table, every entry is exactly 20 bytes
+    const xrefOffset = length;
+    const objectCount = offsets.length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,271 @@
+// Direct uploads to S3 compatible object storage through presigned URLs, bypassing the app server
+import type {
+    CompletedPart,
+    MultipartUploadInfo,
+    PresignedPart,
+    PresignRequest,
+    UploadTarget
+} from '@/lib/upload-api';
+import { UploadHttpError, type UploadTransport } from '@/lib/upload-transport';
+
+// Calls the host makes to its signer for multipart uploads
+export interface MultipartHandlers {
+    create: (file: File) => Promise<MultipartUploadInfo>;
+    signPart: (upload: MultipartUploadInfo, partNumber: number) => Promise<PresignedPart>;
+    complete: (upload: MultipartUploadInfo, parts: CompletedPart[]) => Promise<void>;
+    abort: (upload: MultipartUploadInfo) => Promise<void>;
+}
+
+export interface PresignedTransportOptions {
+    getUploadTarget: (file: File) => Promise<UploadTarget>;
+    multipart?: MultipartHandlers;  // without it every file is sent in a single request
+    multipartThreshold?: number;    // files at least this large are sent in parts
+    partSize?: number;              // bytes per part, S3 needs at least 5MB for all but the last
+    partConcurrency?: number;       // parts of one file sent at once
+    retryDelays?: number[];         // delays (ms) between retries of a failed part
+}
+
+export interface PresignedUploadResult {
+    key: string;
+    url: string | null; // public URL of the object, when the signer knows one
+}
+
+export interface PresignClientOptions {
+    endpoint?: string;
+    headers?: Record<string, string>;
+}
+
+interface StorageResponse {
+    status: number;
+    body: string;
+    etag: string | null;
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+const createAbortError = (): DOMException => new DOMException('Upload aborted', 'AbortError');
+
+const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    const handleAbort = (): void => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+});
+
+// Single storage request over XHR so the body reports progress
+const sendStorageRequest = (
+    method: 'PUT' | 'POST',
+    url: string,
+    headers: Record<string, string>,
+    body: Blob | FormData,
+    signal: AbortSignal,
+    onProgress: (loaded: number) => void
+): Promise<StorageResponse> => new Promise((resolve, reject) => {
+    if (signal.aborted) {
+        reject(createAbortError());
+        return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+    const handleAbort = (): void => xhr.abort();
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+
+    xhr.onload = () => {
+        signal.removeEventListener('abort', handleAbort);
+        if (xhr.status < 200 || xhr.status >= 300) {
+            reject(new UploadHttpError(xhr.status, xhr.responseText));
+            return;
+        }
+        // Cross-origin buckets must list ETag in their CORS ExposeHeaders for multipart uploads
+        resolve({ status: xhr.status, body: xhr.responseText, etag: xhr.getResponseHeader('ETag') });
+    };
+
+    xhr.onerror = () => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(new Error('Network error while uploading'));
+    };
+
+    xhr.onabort = () => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(createAbortError());
+    };
+
+    xhr.send(body);
+});
+
+// Presigned POST forms expect the policy fields first and the file last
+const buildPostBody = (file: File, fields: Record<string, string>): FormData => {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+    formData.append('file', file, file.name);
+    return formData;
+};
+
+// Network errors, expired signatures and server errors are worth another try
+const isRetryablePartError = (error: unknown): boolean => {
+    if (!(error instanceof UploadHttpError)) return true;
+    return error.status === 403 || error.status === 408 || error.status === 429 || error.status >= 500;
+};
+
+// Transport that sends files straight to object storage, large ones as parallel multipart uploads
+export const createPresignedTransport = ({
+    getUploadTarget,
+    multipart,
+    multipartThreshold = 100 * 1024 * 1024, // 100MB
+    partSize = 10 * 1024 * 1024,            // 10MB
+    partConcurrency = 3,
+    retryDelays = [1000, 3000, 5000]
+}: PresignedTransportOptions): UploadTransport<PresignedUploadResult> => {
+    const size = Math.max(partSize, MIN_PART_SIZE);
+
+    const uploadSingle = async (
+        file: File,
+        signal: AbortSignal,
+        report: (loaded: number) => void
+    ): Promise<PresignedUploadResult> => {
+        const target = await getUploadTarget(file);
+        if (target.method === 'POST') {
+            await sendStorageRequest('POST', target.url, {}, buildPostBody(file, target.fields), signal, report);
+        } else {
+            await sendStorageRequest('PUT', target.url, target.headers ?? {}, file, signal, report);
+        }
+        return { key: target.key, url: target.publicUrl ?? null };
+    };
+
+    const uploadMultipart = async (
+        handlers: MultipartHandlers,
+        file: File,
+        signal: AbortSignal,
+        report: (loaded: number) => void
+    ): Promise<PresignedUploadResult> => {
+        const upload = await handlers.create(file);
+        const partCount = Math.ceil(file.size / size);
+        const partLoaded = new Array<number>(partCount).fill(0);
+        const parts: CompletedPart[] = [];
+
+        // One failed part stops the others instead of letting them run to the end
+        const controller = new AbortController();
+        const handleAbort = (): void => controller.abort();
+        signal.addEventListener('abort', handleAbort, { once: true });
+
+        const sendPart = async (partNumber: number): Promise<CompletedPart> => {
+            const blob = file.slice((partNumber - 1) * size, partNumber * size);
+            let attempt = 0;
+            for (;;) {
+                try {
+                    // Signed again on every attempt in case the previous URL expired
+                    const { url, headers = {} } = await handlers.signPart(upload, partNumber);
+                    const response = await sendStorageRequest('PUT', url, headers, blob, controller.signal, (loaded) => {
+                        partLoaded[partNumber - 1] = loaded;
+                        report(partLoaded.reduce((sum, value) => sum + value, 0));
+                    });
+                    if (!response.etag) {
+                        throw new Error('Storage response is missing the ETag header');
+                    }
+                    partLoaded[partNumber - 1] = blob.size;
+                    return { partNumber, etag: response.etag };
+                } catch (error) {
+                    if (isAbortError(error) || !isRetryablePartError(error) || attempt >= retryDelays.length) throw error;
+
+                    partLoaded[partNumber - 1] = 0;
+                    await wait(retryDelays[attempt], controller.signal);
+                    attempt++;
+                }
+            }
+        };
+
+        let nextPart = 1;
+        const worker = async (): Promise<void> => {
+            while (nextPart <= partCount) {
+                const partNumber = nextPart++;
+                parts.push(await sendPart(partNumber));
+            }
+        };
+
+        try {
+            await Promise.all(Array.from({ length: Math.min(partConcurrency, partCount) }, () =>
+                worker().catch(error => {
+                    controller.abort();
+                    throw error;
+                })
+            ));
+            parts.sort((a, b) => a.partNumber - b.partNumber);
+            await handlers.complete(upload, parts);
+        } catch (error) {
+            // Free the stored parts, a retry starts a fresh upload
+            handlers.abort(upload).catch(abortError => console.warn('Unable to abort multipart upload', abortError));
+            throw signal.aborted ? createAbortError() : error;
+        } finally {
+            signal.removeEventListener('abort', handleAbort);
+        }
+
+        return { key: upload.key, url: upload.publicUrl ?? null };
+    };
+
+    return {
+        upload: async (file, { signal, onProgress }) => {
+            const report = (loaded: number): void => {
+                onProgress({ loaded: Math.min(loaded, file.size), total: file.size });
+            };
+            report(0);
+
+            const result = multipart && file.size >= multipartThreshold
+                ? await uploadMultipart(multipart, file, signal, report)
+                : await uploadSingle(file, signal, report);
+
+            report(file.size);
+            return result;
+        }
+    };
+};
+
+// Signer calls against the /api/upload/presign route handler
+export const createPresignClient = ({
+    endpoint = '/api/upload/presign',
+    headers = {}
+}: PresignClientOptions = {}): Pick<PresignedTransportOptions, 'getUploadTarget'> & { multipart: MultipartHandlers } => {
+    const request = async <T>(body: PresignRequest): Promise<T> => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const text = await response.text();
+        if (!response.ok) {
+            throw new UploadHttpError(response.status, text);
+        }
+        return (text ? JSON.parse(text) : null) as T;
+    };
+
+    return {
+        getUploadTarget: (file) => request<UploadTarget>({
+            action: 'target', name: file.name, type: file.type, size: file.size
+        }),
+        multipart: {
+            create: (file) => request<MultipartUploadInfo>({
+                action: 'create', name: file.name, type: file.type, size: file.size
+            }),
+            signPart: ({ key, uploadId }, partNumber) => request<PresignedPart>({
+                action: 'sign-part', key, uploadId, partNumber
+            }),
+            complete: async ({ key, uploadId }, parts) => {
+                await request<null>({ action: 'complete', key, uploadId, parts });
+            },
+            abort: async ({ key, uploadId }) => {
+                await request<null>({ action: 'abort', key, uploadId });
+            }
+        }
+    };
+};
@@ -0,0 +1,60 @@
+// Response shapes returned by the /api/upload route handler
+
+export interface UploadManifestEntry {
+    id: string;
+    name: string;
+    url: string;
+    size: number;
+    type: string;
+    checksum: string; // hex encoded SHA-256 of the stored bytes
+}
+
+export interface UploadManifest {
+    files: UploadManifestEntry[];
+}
+
+export interface UploadErrorResponse {
+    errors: { name: string; code: string; message: string }[];
+}
+
+export const isUploadManifest = (value: unknown): value is UploadManifest => {
+    return typeof value === 'object' && value !== null && Array.isArray((value as UploadManifest).files);
+};
+
+// Pull the first server-side validation message out of an error response body
+export const getUploadErrorMessage = (body: string): string | null => {
+    try {
+        const parsed = JSON.parse(body) as UploadErrorResponse;
+        return parsed.errors?.[0]?.message ?? null;
+    } catch (_error) {
+        return null;
+    }
+};
+
+// Where to send a file directly, returned by /api/upload/presign or a host's own signer
+export type UploadTarget =
+    | { method: 'PUT'; url: string; headers?: Record<string, string>; key: string; publicUrl?: string }
+    | { method: 'POST'; url: string; fields: Record<string, string>; key: string; publicUrl?: string }; // S3 style form upload
+
+export interface MultipartUploadInfo {
+    key: string;
+    uploadId: string;
+    publicUrl?: string;
+}
+
+export interface PresignedPart {
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export interface CompletedPart {
+    partNumber: number;
+    etag: string; // ETag header returned for the part
+}
+
+// Request bodies accepted by /api/upload/presign
+export type PresignRequest =
+    | { action: 'target' | 'create'; name: string; type: string; size: number }
+    | { action: 'sign-part'; key: string; uploadId: string; partNumber: number }
+    | { action: 'complete'; key: string; uploadId: string; parts: CompletedPart[] }
+    | { action: 'abort'; key: string; uploadId: string };
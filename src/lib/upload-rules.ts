@@ -0,0 +1,130 @@
+// Validation rules shared by CameraUploadComponent and the /api/upload route handler
+
+// Checks that apply to each file on its own
+export interface FileRules {
+    maxFileSize: number; // in bytes
+    minFileSize?: number; // in bytes
+    acceptedTypes: string[]; // MIME types, `image/*` wildcards or extensions such as `.heic`
+}
+
+export interface UploadRules extends FileRules {
+    maxFiles: number; // per file list in the component, per request on the server
+}
+
+export type UploadRejectionCode =
+    | 'file-invalid-type'
+    | 'file-too-large'
+    | 'file-too-small'
+    | 'too-many-files'
+    | 'duplicate'     // same contents as a file already in the list
+    | 'file-invalid'; // refused by a custom validator
+
+// Rejection reported by the server, which only knows the file name
+export interface UploadRejection {
+    name: string;
+    code: UploadRejectionCode;
+    message: string;
+}
+
+// Rejection reported by the component, carrying the refused file
+export interface FileRejection {
+    file: File;
+    code: UploadRejectionCode;
+    message: string;
+}
+
+interface FileLike {
+    name: string;
+    size: number;
+    type: string;
+}
+
+// Rules used by the demo page and enforced again by /api/upload, where maxFiles caps each request
+export const defaultUploadRules: UploadRules = {
+    maxFileSize: 5 * 1024 * 1024, // 5MB
+    acceptedTypes: ['image/*'],
+    maxFiles: 5
+};
+
+// Types that can carry script, wildcards never match them so they have to be listed by name
+const SCRIPTABLE_TYPES = ['image/svg+xml'];
+
+// Match a MIME type against `image/*` style wildcards or exact types
+export const isAcceptedType = (mimeType: string, acceptedTypes: string[]): boolean => {
+    const normalized = mimeType.toLowerCase();
+    return acceptedTypes.some(type => {
+        if (type.endsWith('/*')) {
+            return normalized.startsWith(type.slice(0, -1)) && !SCRIPTABLE_TYPES.includes(normalized);
+        }
+        return normalized === type;
+    });
+};
+
+// Match a file by MIME type or, for `.ext` entries, by extension (browsers often leave HEIC types empty)
+export const isAcceptedFile = (file: Pick<FileLike, 'name' | 'type'>, acceptedTypes: string[]): boolean => {
+    const name = file.name.toLowerCase();
+    return acceptedTypes.some(type => {
+        if (type.startsWith('.')) {
+            return name.endsWith(type.toLowerCase());
+        }
+        return isAcceptedType(file.type, [type]);
+    });
+};
+
+// Format a file size with the locale's digits, separators and unit names
+export const formatFileSize = (bytes: number, locale = 'en'): string => {
+    const units = ['byte', 'kilobyte', 'megabyte', 'gigabyte'] as const;
+    const i = bytes > 0 ? Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024))) : 0;
+    return new Intl.NumberFormat(locale, {
+        style: 'unit',
+        unit: units[i],
+        unitDisplay: i === 0 ? 'long' : 'short',
+        maximumFractionDigits: 2
+    }).format(bytes / Math.pow(1024, i));
+};
+
+// User facing message for a rejection code
+export const getRejectionMessage = (
+    code: Exclude<UploadRejectionCode, 'file-invalid'>,
+    file: FileLike,
+    { maxFileSize, minFileSize = 0, maxFiles }: FileRules & { maxFiles?: number }
+): string => {
+    switch (code) {
+        case 'file-invalid-type':
+            return `${file.name} is not a supported file type`;
+        case 'file-too-large':
+            return `${file.name} is too large (${formatFileSize(file.size)}). Maximum size is ${formatFileSize(maxFileSize)}`;
+        case 'file-too-small':
+            return `${file.name} is too small (${formatFileSize(file.size)}). Minimum size is ${formatFileSize(minFileSize)}`;
+        case 'too-many-files':
+            return `${file.name} was not added. Maximum of ${maxFiles} files reached`;
+        case 'duplicate':
+            return `${file.name} has already been added`;
+    }
+};
+
+// Type and size checks for a single file, null when it passes
+export const checkFile = (
+    file: FileLike,
+    rules: FileRules
+): Exclude<UploadRejectionCode, 'file-invalid' | 'too-many-files' | 'duplicate'> | null => {
+    if (!isAcceptedFile(file, rules.acceptedTypes)) return 'file-invalid-type';
+    if (file.size > rules.maxFileSize) return 'file-too-large';
+    if (rules.minFileSize && file.size < rules.minFileSize) return 'file-too-small';
+    return null;
+};
+
+// Validate a batch against the rules, returning one rejection per refused file.
+// Without maxFiles only the per-file checks apply.
+export const validateFiles = (files: FileLike[], rules: FileRules & { maxFiles?: number }): UploadRejection[] => {
+    const rejections: UploadRejection[] = [];
+
+    files.forEach((file, index) => {
+        const code = checkFile(file, rules) ?? (rules.maxFiles !== undefined && index >= rules.maxFiles ? 'too-many-files' : null);
+        if (code) {
+            rejections.push({ name: file.name, code, message: getRejectionMessage(code, file, rules) });
+        }
+    });
+
+    return rejections;
+};
@@ -0,0 +1,70 @@
+// Storage adapters used by the /api/upload route handler (server only)
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface StoredFileInput {
+    id: string;
+    name: string;
+    type: string;
+    data: Uint8Array;
+}
+
+export interface StoredFile {
+    name: string;
+    type: string;
+    data: Uint8Array;
+}
+
+export interface UploadStorage {
+    save: (file: StoredFileInput) => Promise<{ url: string }>;
+    read: (id: string) => Promise<StoredFile | null>;
+}
+
+export interface LocalDiskStorageOptions {
+    directory?: string;
+    publicPath?: string; // URL prefix the stored files are served from
+}
+
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+// Types a browser only ever renders as media, everything else is sent as a download
+const INLINE_TYPES = [
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/bmp',
+    'video/mp4', 'video/webm', 'video/quicktime'
+];
+
+// Response headers for serving a stored file from the app's own origin. The stored type is
+// whatever the client claimed, so it is never trusted to be safe to render as a page.
+export const getDownloadHeaders = (name: string, type: string): Record<string, string> => {
+    const isInline = INLINE_TYPES.includes(type.toLowerCase());
+    return {
+        'Content-Type': type || 'application/octet-stream',
+        'Content-Disposition': `${isInline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(name)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox',
+        'Cache-Control': 'private, max-age=31536000, immutable'
+    };
+};
+
+// Keeps files on the local disk next to a small JSON sidecar with name and type
+export const createLocalDiskStorage = ({
+    directory = process.env.UPLOAD_DIR ?? path.join(process.cwd(), '.uploads'),
+    publicPath = '/api/upload'
+}: LocalDiskStorageOptions = {}): UploadStorage => ({
+    save: async ({ id, name, type, data }) => {
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(path.join(directory, id), data);
+        await fs.writeFile(path.join(directory, `${id}.json`), JSON.stringify({ name, type }));
+        return { url: `${publicPath}/${id}` };
+    },
+    read: async (id) => {
+        if (!ID_PATTERN.test(id)) return null;
+        try {
+            const meta = JSON.parse(await fs.readFile(path.join(directory, `${id}.json`), 'utf8'));
+            const data = await fs.readFile(path.join(directory, id));
+            return { name: meta.name, type: meta.type, data: new Uint8Array(data) };
+        } catch (_error) {
+            return null;
+        }
+    }
+});
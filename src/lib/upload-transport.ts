@@ -0,0 +1,137 @@
+// Pluggable transports used by CameraUploadComponent to send one file per request
+
+export interface UploadProgress {
+    loaded: number; // bytes sent so far
+    total: number;  // total bytes of the request body
+}
+
+export interface UploadRequestOptions {
+    signal: AbortSignal;
+    onProgress: (progress: UploadProgress) => void;
+}
+
+export interface UploadTransport<TResponse = unknown> {
+    upload: (file: File, options: UploadRequestOptions) => Promise<TResponse>;
+}
+
+export interface HttpTransportOptions {
+    endpoint: string;
+    method?: 'POST' | 'PUT';
+    headers?: Record<string, string>;
+    fieldName?: string; // form field the file is appended under
+    fields?: Record<string, string>; // extra form fields sent with every file
+    withCredentials?: boolean;
+}
+
+// Error raised when the server answers with a non-2xx status
+export class UploadHttpError extends Error {
+    status: number;
+    body: string;
+
+    constructor(status: number, body: string) {
+        super(`Upload failed with status ${status}`);
+        this.name = 'UploadHttpError';
+        this.status = status;
+        this.body = body;
+    }
+}
+
+const createAbortError = (): DOMException => new DOMException('Upload aborted', 'AbortError');
+
+const buildFormData = (file: File, fieldName: string, fields: Record<string, string>): FormData => {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+    formData.append(fieldName, file, file.name);
+    return formData;
+};
+
+// Parse JSON responses, fall back to the raw text for anything else
+const parseBody = (text: string): unknown => {
+    if (!text) return null;
+    try {
+        return JSON.parse(text);
+    } catch (_error) {
+        return text;
+    }
+};
+
+// XMLHttpRequest transport - the only browser API that reports upload progress
+export const createXhrTransport = <TResponse = unknown>({
+    endpoint,
+    method = 'POST',
+    headers = {},
+    fieldName = 'file',
+    fields = {},
+    withCredentials = false
+}: HttpTransportOptions): UploadTransport<TResponse> => ({
+    upload: (file, { signal, onProgress }) => new Promise<TResponse>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(createAbortError());
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open(method, endpoint);
+        xhr.withCredentials = withCredentials;
+        Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+        const handleAbort = (): void => xhr.abort();
+        signal.addEventListener('abort', handleAbort, { once: true });
+
+        xhr.upload.onprogress = (event) => {
+            onProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : file.size });
+        };
+
+        xhr.onload = () => {
+            signal.removeEventListener('abort', handleAbort);
+            if (xhr.status >= 200 && xhr.status < 300) {
+                onProgress({ loaded: file.size, total: file.size });
+                resolve(parseBody(xhr.responseText) as TResponse);
+            } else {
+                reject(new UploadHttpError(xhr.status, xhr.responseText));
+            }
+        };
+
+        xhr.onerror = () => {
+            signal.removeEventListener('abort', handleAbort);
+            reject(new Error('Network error while uploading'));
+        };
+
+        xhr.onabort = () => {
+            signal.removeEventListener('abort', handleAbort);
+            reject(createAbortError());
+        };
+
+        xhr.send(buildFormData(file, fieldName, fields));
+    })
+});
+
+// fetch transport - no intermediate progress, reports 0% then 100%
+export const createFetchTransport = <TResponse = unknown>({
+    endpoint,
+    method = 'POST',
+    headers = {},
+    fieldName = 'file',
+    fields = {},
+    withCredentials = false
+}: HttpTransportOptions): UploadTransport<TResponse> => ({
+    upload: async (file, { signal, onProgress }) => {
+        onProgress({ loaded: 0, total: file.size });
+
+        const response = await fetch(endpoint, {
+            method,
+            headers,
+            body: buildFormData(file, fieldName, fields),
+            credentials: withCredentials ? 'include' : 'same-origin',
+            signal
+        });
+        const text = await response.text();
+
+        if (!response.ok) {
+            throw new UploadHttpError(response.status, text);
+        }
+
+        onProgress({ loaded: file.size, total: file.size });
+        return parseBody(text) as TResponse;
+    }
+});
@@ -0,0 +1,54 @@
+// Poster frames for video files, drawn from the file itself so no server round trip is needed
+
+const POSTER_MAX_SIZE = 480; // longest edge in pixels
+const POSTER_TIME = 0.1; // seconds, skips the black first frame many encoders produce
+
+// Grab an early frame of a video as a JPEG, null when the browser cannot decode it
+export const createVideoThumbnail = (file: Blob): Promise<Blob | null> => new Promise(resolve => {
+    if (typeof document === 'undefined') {
+        resolve(null);
+        return;
+    }
+
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'metadata';
+
+    const finish = (blob: Blob | null): void => {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+        resolve(blob);
+    };
+
+    video.onloadedmetadata = () => {
+        video.currentTime = Number.isFinite(video.duration) ? Math.min(POSTER_TIME, video.duration / 2) : 0;
+    };
+
+    video.onseeked = () => {
+        const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+        const width = Math.round(video.videoWidth * scale);
+        const height = Math.round(video.videoHeight * scale);
+        if (width === 0 || height === 0) {
+            finish(null);
+            return;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) {
+            finish(null);
+            return;
+        }
+
+        context.drawImage(video, 0, 0, width, height);
+        canvas.toBlob(finish, 'image/jpeg', 0.8);
+    };
+
+    video.onerror = () => finish(null);
+    video.src = url;
+});